@@ -1,6 +1,14 @@
 import {
 	App,
+	Component,
 	Editor,
+	EditorChange,
+	EditorPosition,
+	EditorSuggest,
+	EditorSuggestContext,
+	EditorSuggestTriggerInfo,
+	editorInfoField,
+	FuzzySuggestModal,
 	MarkdownView,
 	Modal,
 	Plugin,
@@ -8,9 +16,89 @@ import {
 	Setting,
 	Notice,
 	MarkdownPostProcessorContext,
+	MarkdownRenderChild,
 	MarkdownRenderer,
 	Menu,
+	ItemView,
+	resolveSubpath,
+	setIcon,
+	TAbstractFile,
+	TFile,
+	WorkspaceLeaf,
 } from "obsidian";
+import { EditorState, Extension } from "@codemirror/state";
+import {
+	ApparatusEntry,
+	CommentaryBlockLocation,
+	CommentaryDocument,
+	CommentaryLayer,
+	FootnoteDefinition,
+	SectionKind,
+	TextEdit,
+	TextSource,
+	applySectionEdits,
+	applyTextEdits,
+	composeTextEdits,
+	findCommentaryBlocks,
+	getApparatusEntry,
+	getBlockId,
+	getDefinition,
+	getLayer,
+	getLevel,
+	getSectionAtLine,
+	getSectionText,
+	getSigla,
+	getSourceHashes,
+	getTextSources,
+	getUncommentedAnchors,
+	MAX_LAYER,
+	SECTION_KINDS,
+	isFootnoteLabel,
+	isNumericLabel,
+	parseCommentary,
+	sectionMarker,
+	serializeCommentary,
+	setMetadataValue,
+	splitLines,
+	toNoteEdits,
+	toSourceOffset,
+} from "./src/parser";
+import {
+	CommentaryIndex,
+	IndexedBlock,
+	IndexedLink,
+} from "./src/commentary-index";
+import {
+	deleteFootnote,
+	findFootnote,
+	findParenthetical,
+	footnoteFromParenthetical,
+	inlineFootnote,
+	mergeFootnotes,
+	moveFootnote,
+	setFootnoteType,
+} from "./src/footnote-edits";
+import { getQueriedFootnotes, parseQuery, runQuery } from "./src/query";
+import { CommentaryDiagnostic, lintCommentary } from "./src/linter";
+import { renumberFootnotes } from "./src/renumber";
+import {
+	commentaryBlockIndex,
+	commentaryEditorExtension,
+	commentaryFootnotePreview,
+	getBlockIndex,
+} from "./src/editor-extension";
+import { BlockIndex } from "./src/block-index";
+
+type FootnoteRenderStyle = "inline" | "callout" | "marginal";
+
+interface FootnoteType {
+	keyword: string;
+	// Emoji, or the name of a Lucide icon such as "book-open"
+	icon: string;
+	color: string;
+	label: string;
+	style: FootnoteRenderStyle;
+}
 
 interface CommentaryPluginSettings {
 	defaultCollapsed: boolean;
@@ -20,8 +108,64 @@ interface CommentaryPluginSettings {
 	defaultFootnoteType: string;
 	enableStatistics: boolean;
 	enableBlockTags: boolean;
+	enableEditorHighlighting: boolean;
+	syncFrontmatter: boolean;
+	footnoteTypes: FootnoteType[];
 }
 
+// Footnote types with icons and colors. These are the built-in defaults;
+// the list itself is editable in settings.
+const DEFAULT_FOOTNOTE_TYPES: FootnoteType[] = [
+	{
+		keyword: "note",
+		icon: "📝",
+		color: "var(--text-normal)",
+		label: "Note",
+		style: "inline",
+	},
+	{
+		keyword: "warning",
+		icon: "⚠️",
+		color: "var(--text-warning)",
+		label: "Warning",
+		style: "inline",
+	},
+	{
+		keyword: "info",
+		icon: "ℹ️",
+		color: "var(--text-accent)",
+		label: "Info",
+		style: "inline",
+	},
+	{
+		keyword: "reference",
+		icon: "📚",
+		color: "var(--text-muted)",
+		label: "Reference",
+		style: "inline",
+	},
+	{
+		keyword: "idea",
+		icon: "💡",
+		color: "var(--interactive-accent)",
+		label: "Idea",
+		style: "inline",
+	},
+	{
+		keyword: "question",
+		icon: "❓",
+		color: "var(--text-error)",
+		label: "Question",
+		style: "inline",
+	},
+];
+
+const FOOTNOTE_RENDER_STYLES: Record<FootnoteRenderStyle, string> = {
+	inline: "Inline",
+	callout: "Callout box",
+	marginal: "Margin note",
+};
+
 const DEFAULT_SETTINGS: CommentaryPluginSettings = {
 	defaultCollapsed: false,
 	highlightDuration: 2000,
@@ -30,16 +174,15 @@ const DEFAULT_SETTINGS: CommentaryPluginSettings = {
 	defaultFootnoteType: "note",
 	enableStatistics: true,
 	enableBlockTags: true,
+	enableEditorHighlighting: true,
+	syncFrontmatter: false,
+	footnoteTypes: DEFAULT_FOOTNOTE_TYPES,
 };
 
-// Footnote types with icons and colors
-const FOOTNOTE_TYPES = {
-	note: { icon: "📝", color: "var(--text-normal)" },
-	warning: { icon: "⚠️", color: "var(--text-warning)" },
-	info: { icon: "ℹ️", color: "var(--text-accent)" },
-	reference: { icon: "📚", color: "var(--text-muted)" },
-	idea: { icon: "💡", color: "var(--interactive-accent)" },
-	question: { icon: "❓", color: "var(--text-error)" },
+// Tier names for super-commentary layers, after matn → sharh → hashiya → taqrir
+const LAYER_TITLES: Record<number, string> = {
+	2: "Super-commentary (حاشية)",
+	3: "Gloss (تقرير)",
 };
 
 interface CommentaryBlockBounds {
@@ -53,12 +196,112 @@ interface CommentaryBlockBounds {
 	footnoteEnd?: number;
 	metadataStart?: number;
 	metadataEnd?: number;
+	apparatusStart?: number;
+	apparatusEnd?: number;
+	// Parsed block content; its line numbers are relative to startLine + 1
+	doc: CommentaryDocument;
+	block: CommentaryBlockLocation;
+}
+
+interface FootnoteListItem {
+	label: string;
+	definition?: FootnoteDefinition;
+}
+
+const VIEW_TYPE_COMMENTARY_PROBLEMS = "commentary-problems";
+
+// New block ids are short and valid as Obsidian `^block-id`s
+function createBlockId(prefix = "commentary"): string {
+	return `${prefix}-${Date.now().toString(36)}${Math.random()
+		.toString(36)
+		.slice(2, 6)}`;
+}
+
+// Small stable hash for ids derived from a note path
+function hashString(value: string): string {
+	let hash = 5381;
+	for (let i = 0; i < value.length; i++) {
+		hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0;
+	}
+	return (hash >>> 0).toString(36);
+}
+
+interface CommentaryProblem {
+	file: TFile;
+	// Line within the note
+	line: number;
+	// Block the problem is in, for applying fixes
+	block: CommentaryBlockLocation;
+	diagnostic: CommentaryDiagnostic;
+}
+
+type LintScope = "note" | "vault";
+
+const VIEW_TYPE_COMMENTARY_EXPLORER = "commentary-explorer";
+const VIEW_TYPE_COMMENTARY_TAGS = "commentary-tags";
+const VIEW_TYPE_COMMENTARY_BACKLINKS = "commentary-backlinks";
+
+// Link counts by target, as in metadataCache.resolvedLinks, with the note
+// entries they were added to
+interface LinkContribution {
+	resolved: Record<string, number>;
+	unresolved: Record<string, number>;
+	entries: Record<string, number>[];
+}
+
+// Note properties written by frontmatter sync
+const TITLES_PROPERTY = "commentary-titles";
+const TAGS_PROPERTY = "commentary-tags";
+// Block tags that are also valid Obsidian tags
+const OBSIDIAN_TAG_PATTERN = /^(?!\d+$)[\p{L}\p{N}_/-]+$/u;
+
+// Core search plugin, which is not part of the public API
+interface GlobalSearchPlugin {
+	instance?: { openGlobalSearch(query: string): void };
+}
+
+// One block as listed in the explorer, read from its note's text
+interface CommentaryBlockSummary {
+	file: TFile;
+	// Opening fence line within the note
+	line: number;
+	blockId: string;
+	title: string;
+	tags: string[];
+	words: number;
+	footnotes: number;
+	footnoteTypes: string[];
+	errors: number;
+	warnings: number;
+}
+
+interface ApparatusListItem {
+	num: number;
+	// Display number, in order of first appearance across the block
+	index: number;
+	// Text section holding the lemma
+	section: number;
+	entry?: ApparatusEntry;
 }
 
 export default class CommentaryPlugin extends Plugin {
 	settings: CommentaryPluginSettings;
-	blockCounter: number = 0;
-	blockRegistry: Map<string, any> = new Map();
+	blockRegistry: Map<string, CommentaryDocument> = new Map();
+	// Source of each block rendered in reading view, by processor element
+	renderedSources: WeakMap<HTMLElement, string> = new WeakMap();
+	// Every commentary block in the vault, kept current with file changes
+	commentaryIndex: CommentaryIndex = new CommentaryIndex(
+		(keyword) =>
+			(this.getFootnoteType(keyword) || this.getFallbackFootnoteType())
+				.keyword
+	);
+	indexedTypes = "";
+	indexTimer: number | null = null;
+	linkTimer: number | null = null;
+	// Block links added to Obsidian's link tables, by source note
+	linkContributions: Map<string, LinkContribution> = new Map();
+	// Registered once; emptied and refilled when the setting changes
+	editorExtensions: Extension[] = [];
 
 	async onload() {
 		await this.loadSettings();
@@ -71,16 +314,127 @@ export default class CommentaryPlugin extends Plugin {
 			}
 		);
 
+		// Register the processor for blocks that list commentary blocks
+		this.registerMarkdownCodeBlockProcessor(
+			"commentary-query",
+			(source, el, ctx) => {
+				ctx.addChild(new CommentaryQueryRenderChild(el, this, source));
+			}
+		);
+
+		// Mark passages that commentary blocks transclude as their text
+		this.registerMarkdownPostProcessor((el, ctx) => {
+			this.markCommentedPassages(el, ctx);
+		});
+
+		// Index the vault's blocks; files created while the vault loads are
+		// picked up by the initial build
+		this.app.workspace.onLayoutReady(() => {
+			this.buildIndex();
+			this.registerEvent(
+				this.app.vault.on("create", (file) => this.indexFile(file))
+			);
+		});
+		this.registerEvent(
+			this.app.vault.on("modify", (file) => this.indexFile(file))
+		);
+		this.registerEvent(
+			this.app.vault.on("delete", (file) =>
+				this.commentaryIndex.remove(file.path)
+			)
+		);
+		this.registerEvent(
+			this.app.vault.on("rename", (file, oldPath) => {
+				// Obsidian moves the note's link entries, counts included
+				const contribution = this.linkContributions.get(oldPath);
+				this.linkContributions.delete(oldPath);
+				if (contribution) {
+					this.linkContributions.set(file.path, contribution);
+				}
+				this.commentaryIndex.rename(oldPath, file.path);
+			})
+		);
+
+		// Count block links in the graph, and list them in a backlinks pane
+		this.register(
+			this.commentaryIndex.onChange((path) => {
+				if (path) {
+					this.contributeLinks(path, false);
+				} else {
+					this.refreshLinkContributions();
+				}
+			})
+		);
+		this.registerEvent(
+			this.app.metadataCache.on("resolve", (file) =>
+				this.contributeLinks(file.path, true)
+			)
+		);
+		// A new, moved or deleted note can change where block links resolve,
+		// which Obsidian only rechecks for the links it indexed
+		this.app.workspace.onLayoutReady(() => {
+			this.registerEvent(
+				this.app.vault.on("create", () => this.scheduleLinkRefresh())
+			);
+		});
+		this.registerEvent(
+			this.app.vault.on("delete", () => this.scheduleLinkRefresh())
+		);
+		this.registerEvent(
+			this.app.vault.on("rename", () => this.scheduleLinkRefresh())
+		);
+		this.registerView(
+			VIEW_TYPE_COMMENTARY_BACKLINKS,
+			(leaf) => new CommentaryBacklinksView(leaf, this)
+		);
+		this.addCommand({
+			id: "open-commentary-backlinks",
+			name: "Open Commentary Backlinks",
+			callback: () => {
+				this.activateBacklinksView();
+			},
+		});
+
+		// Style and fold commentary blocks in the editor
+		this.registerEditorExtension(this.editorExtensions);
+		this.updateEditorExtensions();
+
 		// Add command to insert commentary block
 		this.addCommand({
 			id: "insert-commentary-block",
 			name: "Insert Commentary Block",
 			editorCallback: (editor: Editor, view: MarkdownView) => {
-				this.insertCommentaryBlock(editor);
+				this.insertCommentaryBlock(editor, view.file);
 			},
 			hotkeys: [{ modifiers: ["Ctrl", "Shift"], key: "c" }],
 		});
 
+		// Add commands to comment on the selected text
+		this.addCommand({
+			id: "create-block-from-selection",
+			name: "Create Commentary Block from Selection",
+			editorCallback: (editor: Editor, view: MarkdownView) => {
+				if (view.file) this.createBlockFromSelection(editor, view.file);
+			},
+		});
+
+		this.addCommand({
+			id: "create-block-from-selection-in-note",
+			name: "Create Commentary Block from Selection in Another Note",
+			editorCallback: (editor: Editor, view: MarkdownView) => {
+				if (view.file) {
+					this.createBlockFromSelectionInNote(editor, view.file);
+				}
+			},
+		});
+
+		// Offer block and footnote actions on right-click in the editor
+		this.registerEvent(
+			this.app.workspace.on("editor-menu", (menu, editor, info) => {
+				if (info.file) this.addEditorMenuItems(menu, editor, info.file);
+			})
+		);
+
 		// Add command to insert footnote (unified command)
 		this.addCommand({
 			id: "insert-footnote",
@@ -91,6 +445,161 @@ export default class CommentaryPlugin extends Plugin {
 			hotkeys: [{ modifiers: ["Ctrl", "Shift"], key: "f" }],
 		});
 
+		// Add command to insert a footnote with a readable label
+		this.addCommand({
+			id: "insert-named-footnote",
+			name: "Insert Named Footnote",
+			editorCallback: (editor: Editor, view: MarkdownView) => {
+				this.insertNamedFootnote(editor);
+			},
+		});
+
+		// Add command to list passages that have no commentary yet
+		this.addCommand({
+			id: "show-uncommented-passages",
+			name: "Show Uncommented Passages",
+			editorCallback: (editor: Editor, view: MarkdownView) => {
+				this.showUncommentedPassages(editor);
+			},
+		});
+
+		// Add commands to renumber footnotes in the source
+		this.addCommand({
+			id: "renumber-footnotes-in-block",
+			name: "Renumber Footnotes in Current Block",
+			editorCallback: (editor: Editor, view: MarkdownView) => {
+				this.renumberFootnotesInEditor(editor, false);
+			},
+		});
+
+		this.addCommand({
+			id: "renumber-footnotes-in-note",
+			name: "Renumber Footnotes in All Blocks of Note",
+			editorCallback: (editor: Editor, view: MarkdownView) => {
+				this.renumberFootnotesInEditor(editor, true);
+			},
+		});
+
+		// Add commands to edit the footnote under the cursor
+		this.addCommand({
+			id: "delete-footnote",
+			name: "Delete Footnote",
+			editorCallback: (editor: Editor, view: MarkdownView) => {
+				this.deleteFootnoteAtCursor(editor, false);
+			},
+		});
+
+		this.addCommand({
+			id: "delete-footnote-and-renumber",
+			name: "Delete Footnote and Renumber",
+			editorCallback: (editor: Editor, view: MarkdownView) => {
+				this.deleteFootnoteAtCursor(editor, true);
+			},
+		});
+
+		this.addCommand({
+			id: "convert-footnote-to-inline",
+			name: "Convert Footnote to Inline Commentary",
+			editorCallback: (editor: Editor, view: MarkdownView) => {
+				this.inlineFootnoteAtCursor(editor);
+			},
+		});
+
+		this.addCommand({
+			id: "convert-parenthetical-to-footnote",
+			name: "Convert Parenthetical to Footnote",
+			editorCallback: (editor: Editor, view: MarkdownView) => {
+				this.parentheticalToFootnote(editor);
+			},
+		});
+
+		this.addCommand({
+			id: "merge-footnote",
+			name: "Merge Footnote into Another",
+			editorCallback: (editor: Editor, view: MarkdownView) => {
+				this.mergeFootnoteAtCursor(editor);
+			},
+		});
+
+		this.addCommand({
+			id: "move-footnote-here",
+			name: "Move Footnote Reference Here",
+			editorCallback: (editor: Editor, view: MarkdownView) => {
+				this.moveFootnoteHere(editor);
+			},
+		});
+
+		// Complete footnotes, types and section markers while typing
+		this.registerEditorSuggest(new CommentarySuggest(this.app, this));
+
+		// Add commands to lint commentary blocks
+		this.registerView(
+			VIEW_TYPE_COMMENTARY_PROBLEMS,
+			(leaf) => new CommentaryProblemsView(leaf, this)
+		);
+
+		this.addCommand({
+			id: "lint-current-note",
+			name: "Lint Commentary Blocks in Current Note",
+			callback: () => {
+				this.runLint("note");
+			},
+		});
+
+		this.addCommand({
+			id: "lint-vault",
+			name: "Lint Commentary Blocks in Vault",
+			callback: () => {
+				this.runLint("vault");
+			},
+		});
+
+		// Add a sidebar listing the commentary blocks of the note or vault
+		this.registerView(
+			VIEW_TYPE_COMMENTARY_EXPLORER,
+			(leaf) => new CommentaryExplorerView(leaf, this)
+		);
+
+		this.addCommand({
+			id: "open-commentary-explorer",
+			name: "Open Commentary Explorer",
+			callback: () => {
+				this.activateExplorerView();
+			},
+		});
+
+		// Add a view counting block tags, and optional frontmatter sync
+		this.registerView(
+			VIEW_TYPE_COMMENTARY_TAGS,
+			(leaf) => new CommentaryTagsView(leaf, this)
+		);
+
+		this.addCommand({
+			id: "open-commentary-tags",
+			name: "Open Commentary Tags",
+			callback: () => {
+				this.activateTagsView();
+			},
+		});
+
+		this.addCommand({
+			id: "sync-commentary-properties",
+			name: "Sync Commentary Titles and Tags to Properties",
+			callback: () => {
+				this.syncFrontmatterInActiveNote();
+			},
+		});
+
+		// The metadata cache is current by the time this fires, so the
+		// comparison in syncFrontmatter sees the frontmatter just written
+		this.registerEvent(
+			this.app.metadataCache.on("changed", (file, data, cache) => {
+				if (this.settings.syncFrontmatter) {
+					this.syncFrontmatter(file, data, cache.frontmatter);
+				}
+			})
+		);
+
 		// Add command to toggle all blocks
 		this.addCommand({
 			id: "toggle-all-blocks",
@@ -100,6 +609,19 @@ export default class CommentaryPlugin extends Plugin {
 			},
 		});
 
+		// Expand the target block when following a link to one
+		this.registerDomEvent(document, "click", (evt: MouseEvent) => {
+			const link = (evt.target as HTMLElement).closest?.(
+				"a.internal-link"
+			);
+			const href = link?.getAttribute("data-href") || "";
+			const match = href.match(/#\^([A-Za-z0-9-]+)$/);
+			if (match) {
+				// Give Obsidian time to open the note and scroll to the block
+				window.setTimeout(() => this.revealBlock(match[1]), 300);
+			}
+		});
+
 		// Add settings tab
 		this.addSettingTab(new CommentarySettingTab(this.app, this));
 
@@ -107,97 +629,63 @@ export default class CommentaryPlugin extends Plugin {
 		this.addStyles();
 	}
 
+	// The editor's block index, kept up to date as the note is edited, or a
+	// fresh one for an editor without it
+	getBlockIndex(editor: Editor): BlockIndex {
+		const { cm } = editor as unknown as { cm?: { state: EditorState } };
+		const index = cm && getBlockIndex(cm.state);
+		return index ?? BlockIndex.build(splitLines(editor.getValue()));
+	}
+
 	// NEW: Helper method to find current commentary block boundaries
 	getCurrentCommentaryBlockBounds(
 		editor: Editor,
 		cursorLine: number
 	): CommentaryBlockBounds | null {
-		const lines = editor.getValue().split("\n");
-		let blockStart = -1;
-		let blockEnd = -1;
-
-		// Find the start of the current commentary block
-		for (let i = cursorLine; i >= 0; i--) {
-			if (lines[i].startsWith("```commentary")) {
-				blockStart = i;
-				break;
-			}
-			if (lines[i].startsWith("```") && i < cursorLine) {
-				// Found a different code block, cursor is not in commentary block
-				return null;
-			}
-		}
-
-		if (blockStart === -1) {
-			return null; // Not in a commentary block
-		}
-
-		// Find the end of the current commentary block
-		for (let i = blockStart + 1; i < lines.length; i++) {
-			if (lines[i].startsWith("```")) {
-				blockEnd = i;
-				break;
-			}
-		}
-
-		if (blockEnd === -1) {
-			blockEnd = lines.length; // Block extends to end of file
-		}
-
-		// Find section boundaries within the block
+		// CommonMark fences, so code samples inside the block and blocks in
+		// callouts or blockquotes are handled like Obsidian renders them
+		const index = this.getBlockIndex(editor);
+		const block = index.blockAt(cursorLine);
+		if (!block) return null;
+
+		const blockStart = block.startLine;
+		const doc = index.getDoc(block);
 		const bounds: CommentaryBlockBounds = {
 			startLine: blockStart,
-			endLine: blockEnd,
+			endLine: block.endLine,
+			doc,
+			block,
 		};
 
-		let currentSection = "";
-		for (let i = blockStart + 1; i < blockEnd; i++) {
-			const line = lines[i];
-
-			if (line.startsWith("---metadata---")) {
-				if (currentSection === "metadata") bounds.metadataEnd = i;
-				bounds.metadataStart = i;
-				currentSection = "metadata";
-			} else if (line.startsWith("---text---")) {
-				if (currentSection === "metadata") bounds.metadataEnd = i;
-				if (currentSection === "text") bounds.textEnd = i;
-				bounds.textStart = i;
-				currentSection = "text";
-			} else if (line.startsWith("---commentary---")) {
-				if (currentSection === "text") bounds.textEnd = i;
-				if (currentSection === "commentary") bounds.commentaryEnd = i;
-				bounds.commentaryStart = i;
-				currentSection = "commentary";
-			} else if (line.startsWith("---footnote---")) {
-				if (currentSection === "commentary") bounds.commentaryEnd = i;
-				if (currentSection === "footnote") bounds.footnoteEnd = i;
-				bounds.footnoteStart = i;
-				currentSection = "footnote";
+		// Later sections of the same kind take precedence, as before.
+		// Super-commentary layers are only reachable through the document.
+		doc.sections.forEach((section) => {
+			if (section.level > 1) return;
+			const start = blockStart + 1 + section.line;
+			const end = blockStart + 1 + section.endLine;
+			switch (section.kind) {
+				case "metadata":
+					bounds.metadataStart = start;
+					bounds.metadataEnd = end;
+					break;
+				case "text":
+					bounds.textStart = start;
+					bounds.textEnd = end;
+					break;
+				case "commentary":
+					bounds.commentaryStart = start;
+					bounds.commentaryEnd = end;
+					break;
+				case "footnote":
+					bounds.footnoteStart = start;
+					bounds.footnoteEnd = end;
+					break;
+				case "apparatus":
+					bounds.apparatusStart = start;
+					bounds.apparatusEnd = end;
+					break;
 			}
-		}
-
-		// Set end boundaries for the last section
-		if (
-			currentSection === "metadata" &&
-			bounds.metadataStart !== undefined
-		) {
-			bounds.metadataEnd = blockEnd;
-		} else if (
-			currentSection === "text" &&
-			bounds.textStart !== undefined
-		) {
-			bounds.textEnd = blockEnd;
-		} else if (
-			currentSection === "commentary" &&
-			bounds.commentaryStart !== undefined
-		) {
-			bounds.commentaryEnd = blockEnd;
-		} else if (
-			currentSection === "footnote" &&
-			bounds.footnoteStart !== undefined
-		) {
-			bounds.footnoteEnd = blockEnd;
-		}
+		});
 
 		return bounds;
 	}
@@ -207,23 +695,26 @@ export default class CommentaryPlugin extends Plugin {
 		el: HTMLElement,
 		ctx: MarkdownPostProcessorContext
 	) {
-		const blockId = `commentary-block-${this.blockCounter++}`;
-
 		// Parse the source content
-		const { originalText, commentary, footnotes, metadata } =
-			this.parseBlockContent(source);
+		this.renderedSources.set(el, source);
+		const doc = this.parseBlockContent(source);
+		const { metadata } = doc;
+		const blockId = this.resolveBlockId(source, doc, el, ctx);
 
 		// Store block data for later reference
-		this.blockRegistry.set(blockId, {
-			originalText,
-			commentary,
-			footnotes,
-			metadata,
-		});
+		this.blockRegistry.set(blockId, doc);
+
+		// Owns what the Markdown renders load, such as embeds, until the
+		// block is rendered again or its note closes
+		const component = new MarkdownRenderChild(el);
+		ctx.addChild(component);
 
 		// Create the block container
 		const container = el.createDiv({ cls: "commentary-block-container" });
 		container.setAttribute("data-block-id", blockId);
+		container.addEventListener("contextmenu", (evt) =>
+			this.showReadingMenu(evt, container, blockId, el, ctx)
+		);
 
 		// Add tags if enabled and present
 		if (this.settings.enableBlockTags && metadata.tags) {
@@ -231,10 +722,7 @@ export default class CommentaryPlugin extends Plugin {
 				cls: "commentary-block-tags",
 			});
 			metadata.tags.forEach((tag: string) => {
-				tagsContainer.createEl("span", {
-					cls: "commentary-tag",
-					text: `#${tag}`,
-				});
+				this.renderTag(tagsContainer, tag);
 			});
 		}
 
@@ -253,7 +741,7 @@ export default class CommentaryPlugin extends Plugin {
 		// Add quick toolbar if enabled
 		if (this.settings.enableQuickToolbar) {
 			const toolbar = header.createDiv({ cls: "commentary-toolbar" });
-			this.createQuickToolbar(toolbar, blockId);
+			this.createQuickToolbar(toolbar, blockId, el, ctx);
 		}
 
 		// Create content container
@@ -265,121 +753,157 @@ export default class CommentaryPlugin extends Plugin {
 			content.addClass("collapsed");
 		}
 
-		// Add original text section
-		if (originalText.trim()) {
-			const textSection = content.createDiv({
-				cls: "commentary-original-text",
-			});
-			const textHeader = textSection.createEl("h4", {
-				text: "Original Text (متن)",
-			});
-			const textContent = textSection.createDiv({
-				cls: "original-text-content",
-			});
-			MarkdownRenderer.renderMarkdown(
-				originalText,
-				textContent,
-				"",
-				null
-			);
-		}
-
-		// Process and add commentary with footnotes
-		const commentarySection = content.createDiv({
-			cls: "commentary-section",
-		});
-		const commentaryHeader = commentarySection.createEl("h4", {
-			text: "Commentary",
-		});
-
-		// Add statistics if enabled
-		if (this.settings.enableStatistics) {
-			const stats = this.calculateStatistics(commentary, footnotes);
-			const statsEl = commentaryHeader.createEl("span", {
-				cls: "commentary-stats",
-				text: ` (${stats.words} words, ${stats.footnotes} footnotes)`,
-			});
-		}
-
-		const commentaryContent = commentarySection.createDiv({
-			cls: "commentary-content",
-		});
+		// Process footnotes in commentary using the footnotes section.
+		// Numbering runs across all segments of the block. Passage anchors
+		// and apparatus lemmas are marked up in the same pass.
+		const { processedSections, footnotesList, apparatusList } =
+			this.processFootnotes(doc, blockId);
+		const sigla = getSigla(doc);
+		const textSources = getTextSources(doc);
+
+		// Each text/commentary pair renders as its own unit
+		const segments = doc.segments.length > 0 ? doc.segments : [{}];
+		let commentaryContent = content;
+		const sourceRenders: Promise<void>[] = [];
+		const refCounts: Map<string, number> = new Map();
+
+		segments.forEach((segment, segmentIndex) => {
+			const segmentEl =
+				segments.length > 1
+					? content.createDiv({
+							cls: "commentary-segment",
+							attr: { "data-segment": String(segmentIndex + 1) },
+						})
+					: content;
+
+			// Add original text section
+			const originalText =
+				segment.text !== undefined
+					? processedSections.get(segment.text) || ""
+					: "";
+			if (originalText.trim()) {
+				const textSection = segmentEl.createDiv({
+					cls: "commentary-original-text",
+				});
+				textSection.createEl("h4", {
+					text: "Original Text (متن)",
+				});
+				const textContent = textSection.createDiv({
+					cls: "original-text-content",
+				});
+				const textSource = textSources.find(
+					(source) => source.section === segment.text
+				);
+				if (textSource) {
+					sourceRenders.push(
+						this.renderTextSource(
+							textContent,
+							textSource,
+							textSources.indexOf(textSource),
+							doc,
+							blockId,
+							el,
+							ctx,
+							component
+						)
+					);
+				} else {
+					this.renderOriginalTextWithAnchors(
+						originalText,
+						textContent,
+						blockId,
+						ctx.sourcePath,
+						component
+					);
+				}
 
-		// Process footnotes in commentary using the footnotes section
-		const { processedText, footnotesList } = this.processFootnotes(
-			commentary,
-			footnotes,
-			blockId
-		);
+				// Critical apparatus for this passage, under the text
+				const entries = apparatusList.filter(
+					(item) => item.section === segment.text
+				);
+				if (entries.length > 0) {
+					this.renderApparatus(textSection, entries, sigla, blockId);
+				}
+			}
 
-		// Render the processed commentary
-		const commentaryBody = commentaryContent.createDiv({
-			cls: "commentary-body",
-		});
-		this.renderCommentaryWithFootnotes(
-			processedText,
-			commentaryBody,
-			blockId
-		);
+			// A trailing passage may still be waiting for its commentary
+			if (segment.commentary === undefined && segments.length > 1) {
+				return;
+			}
 
-		// Add footnotes section if there are any
-		if (footnotesList.length > 0) {
-			const footnotesSection = commentaryContent.createDiv({
-				cls: "commentary-footnotes",
+			// Process and add commentary with footnotes
+			const commentarySection = segmentEl.createDiv({
+				cls: "commentary-section",
 			});
-			const footnotesHeader = footnotesSection.createEl("h5", {
-				text: "Footnotes",
+			const commentaryHeader = commentarySection.createEl("h4", {
+				text: "Commentary",
 			});
-			const footnotesList_el = footnotesSection.createEl("ol", {
-				cls: "footnotes-list",
-			});
-
-			footnotesList.forEach((footnote, index) => {
-				const li = footnotesList_el.createEl("li");
-				li.setAttribute("id", `${blockId}-footnote-${index + 1}`);
-				li.setAttribute("data-footnote-num", String(index + 1));
-
-				// Parse footnote type and content
-				const { type, content } = this.parseFootnoteContent(footnote);
-				const footnoteType =
-					FOOTNOTE_TYPES[type] || FOOTNOTE_TYPES.note;
-
-				// Add type icon
-				if (footnoteType.icon) {
-					li.createEl("span", {
-						cls: "footnote-type-icon",
-						text: footnoteType.icon + " ",
-					});
-				}
 
-				// Add back reference
-				const backRef = li.createEl("a", {
-					cls: "footnote-backref",
-					text: "↩",
-					href: `#${blockId}-ref-${index + 1}`,
-				});
-				backRef.addEventListener("click", (e) => {
-					e.preventDefault();
-					this.scrollToAndHighlight(`${blockId}-ref-${index + 1}`);
+			// Add statistics if enabled
+			if (this.settings.enableStatistics) {
+				const stats = this.calculateStatistics(
+					doc,
+					"commentary",
+					segments.length > 1 ? segment.commentary : undefined
+				);
+				commentaryHeader.createEl("span", {
+					cls: "commentary-stats",
+					text: ` (${stats.words} words, ${stats.footnotes} footnotes)`,
 				});
+			}
 
-				li.createEl("span", { text: " " });
+			commentaryContent = commentarySection.createDiv({
+				cls: "commentary-content",
+			});
 
-				// Render footnote content
-				const footnoteContent = li.createEl("span", {
-					cls: "footnote-text",
-				});
-				footnoteContent.style.color = footnoteType.color;
+			// Render the processed commentary
+			const commentaryBody = commentaryContent.createDiv({
+				cls: "commentary-body",
+			});
+			this.renderCommentaryWithFootnotes(
+				segment.commentary !== undefined
+					? processedSections.get(segment.commentary) || ""
+					: "",
+				commentaryBody,
+				blockId,
+				ctx.sourcePath,
+				component,
+				1,
+				refCounts
+			);
+		});
 
-				// Handle multi-line footnotes
-				const tempDiv = document.createElement("div");
-				MarkdownRenderer.renderMarkdown(content, tempDiv, "", null);
+		// Add footnotes section if there are any
+		if (footnotesList.length > 0) {
+			this.renderFootnotesList(
+				commentaryContent,
+				footnotesList,
+				blockId,
+				ctx.sourcePath,
+				component
+			);
+		}
 
-				// Process rendered content to maintain proper formatting
-				this.processFootnoteContent(tempDiv, footnoteContent);
-			});
+		// Super-commentary layers, each as its own collapsible tier
+		let layer = doc.layers;
+		while (layer) {
+			if (layer.level > 1) {
+				this.renderLayer(
+					content,
+					doc,
+					layer,
+					blockId,
+					ctx.sourcePath,
+					component
+				);
+			}
+			layer = layer.child;
 		}
 
+		// Tie anchored commentary paragraphs to their passages, once text
+		// transcluded from other notes is in as well
+		Promise.all(sourceRenders).then(() => this.linkAnchors(content));
+
 		// Add collapse functionality
 		collapseBtn.addEventListener("click", () => {
 			content.classList.toggle("collapsed");
@@ -389,153 +913,309 @@ export default class CommentaryPlugin extends Plugin {
 		});
 	}
 
-	parseBlockContent(source: string) {
-		const lines = source.split("\n");
-		let originalText = "";
-		let commentary = "";
-		let footnotes = "";
-		let metadata: any = {};
-		let currentSection = "";
-
-		for (const line of lines) {
-			if (line.startsWith("---text---")) {
-				currentSection = "text";
-				continue;
-			}
-			if (line.startsWith("---commentary---")) {
-				currentSection = "commentary";
-				continue;
-			}
-			if (line.startsWith("---footnote---")) {
-				currentSection = "footnote";
-				continue;
-			}
-			if (line.startsWith("---metadata---")) {
-				currentSection = "metadata";
-				continue;
+	renderFootnotesList(
+		parent: HTMLElement,
+		footnotesList: FootnoteListItem[],
+		idPrefix: string,
+		sourcePath: string,
+		component: Component
+	) {
+		const footnotesSection = parent.createDiv({
+			cls: "commentary-footnotes",
+		});
+		footnotesSection.createEl("h5", {
+			text: "Footnotes",
+		});
+		const footnotesList_el = footnotesSection.createEl("ol", {
+			cls: "footnotes-list",
+		});
+
+		footnotesList.forEach((footnote, index) => {
+			const li = footnotesList_el.createEl("li");
+			li.setAttribute("id", `${idPrefix}-footnote-${index + 1}`);
+			li.setAttribute("data-footnote-num", String(index + 1));
+			li.setAttribute("data-footnote-label", footnote.label);
+
+			// Parse footnote type and content
+			const { type, content } = this.parseFootnoteContent(
+				footnote.label,
+				footnote.definition
+			);
+			const footnoteType =
+				this.getFootnoteType(type) || this.getFallbackFootnoteType();
+			li.addClass(`footnote-style-${footnoteType.style}`);
+			li.setAttribute("data-footnote-type", footnoteType.keyword);
+
+			// Callouts carry their type label as a title
+			if (footnoteType.style === "callout") {
+				li.style.borderColor = footnoteType.color;
+				const title = li.createDiv({ cls: "footnote-callout-title" });
+				this.renderFootnoteTypeIcon(title, footnoteType);
+				title.createSpan({ text: footnoteType.label });
+			} else {
+				this.renderFootnoteTypeIcon(li, footnoteType);
 			}
 
-			switch (currentSection) {
-				case "text":
-					originalText += line + "\n";
-					break;
-				case "commentary":
-					commentary += line + "\n";
-					break;
-				case "footnote":
-					footnotes += line + "\n";
-					break;
-				case "metadata":
-					// Parse metadata lines (e.g., title: My Title, tags: tag1, tag2)
-					const metaMatch = line.match(/^(\w+):\s*(.+)$/);
-					if (metaMatch) {
-						const [, key, value] = metaMatch;
-						if (key === "tags") {
-							metadata[key] = value
-								.split(",")
-								.map((t) => t.trim());
-						} else {
-							metadata[key] = value.trim();
-						}
-					}
-					break;
+			// Back reference to the first of the footnote's references
+			this.createBackReference(li, `${idPrefix}-ref-${index + 1}-1`);
+
+			li.createEl("span", { text: " " });
+
+			// Render footnote content
+			const footnoteContent = li.createEl("span", {
+				cls: "footnote-text",
+			});
+			footnoteContent.style.color = footnoteType.color;
+
+			// Handle multi-line footnotes
+			const tempDiv = document.createElement("div");
+			MarkdownRenderer.renderMarkdown(
+				content,
+				tempDiv,
+				sourcePath,
+				component
+			);
+
+			// Process rendered content to maintain proper formatting
+			this.processFootnoteContent(tempDiv, footnoteContent);
+
+			if (footnoteType.style === "marginal") {
+				this.renderSidenote(
+					parent,
+					`${idPrefix}-ref-${index + 1}-1`,
+					index + 1,
+					footnoteType,
+					footnoteContent
+				);
 			}
-		}
+		});
+	}
 
-		return { originalText, commentary, footnotes, metadata };
+	// Margin notes repeat the footnote beside its reference; the list entry
+	// stays so numbering and back links are unchanged
+	renderSidenote(
+		parent: HTMLElement,
+		refId: string,
+		num: number,
+		footnoteType: FootnoteType,
+		content: HTMLElement
+	) {
+		const root = parent.closest(".commentary-block-container") || parent;
+		const ref = root.querySelector(`[id="${refId}"]`);
+		const sup = ref?.parentElement;
+		if (!sup) return;
+
+		const sidenote = createEl("aside", { cls: "footnote-sidenote" });
+		sidenote.style.borderColor = footnoteType.color;
+		sidenote.createSpan({
+			cls: "footnote-sidenote-num",
+			text: `${num}`,
+		});
+		this.renderFootnoteTypeIcon(sidenote, footnoteType);
+		sidenote.appendChild(content.cloneNode(true));
+		sup.after(sidenote);
 	}
 
-	processFootnotes(
-		commentaryText: string,
-		footnotesText: string,
-		blockId: string
-	): { processedText: string; footnotesList: string[] } {
-		const footnotesList: string[] = [];
-		const footnoteDefinitions: Map<number, string> = new Map();
-
-		// First, find all footnote definitions in the footnotes section: $[1]: content here
-		const definitionPattern =
-			/\$\[(\d+)\]:\s*(.+(?:\n(?!\$\[\d+\]:|\n\s*$).*)*)/gm;
-
-		// Extract footnote definitions from the footnotes section
-		let defMatch;
-		definitionPattern.lastIndex = 0;
-		while ((defMatch = definitionPattern.exec(footnotesText)) !== null) {
-			const num = parseInt(defMatch[1]);
-			const content = defMatch[2].trim();
-			footnoteDefinitions.set(num, content);
-		}
-
-		// Find all footnote references in the commentary: $[1], $[2], etc.
-		const referencePattern = /\$\[(\d+)\]/g;
-		const references: Array<{ match: string; num: number; index: number }> =
-			[];
-		let refMatch;
-
-		referencePattern.lastIndex = 0;
-		while ((refMatch = referencePattern.exec(commentaryText)) !== null) {
-			const num = parseInt(refMatch[1]);
-			references.push({
-				match: refMatch[0],
-				num: num,
-				index: refMatch.index,
-			});
+	renderLayer(
+		parent: HTMLElement,
+		doc: CommentaryDocument,
+		layer: CommentaryLayer,
+		blockId: string,
+		sourcePath: string,
+		component: Component
+	) {
+		const tier = parent.createDiv({
+			cls: "commentary-layer",
+			attr: { "data-layer": String(layer.level) },
+		});
+		const header = tier.createDiv({ cls: "commentary-layer-header" });
+		const collapseBtn = header.createEl("button", {
+			cls: "commentary-collapse-btn",
+			text: "▼",
+		});
+		header.createEl("span", {
+			cls: "commentary-layer-title",
+			text: LAYER_TITLES[layer.level] || `Layer ${layer.level}`,
+		});
+
+		const tierContent = tier.createDiv({
+			cls: "commentary-layer-content",
+		});
+
+		// Each layer has its own, independent footnote series
+		const { processedSections, footnotesList } = this.processFootnotes(
+			doc,
+			blockId,
+			layer.level
+		);
+
+		const refCounts: Map<string, number> = new Map();
+		layer.commentary.forEach((sectionIndex) => {
+			const body = tierContent.createDiv({ cls: "commentary-body" });
+			this.renderCommentaryWithFootnotes(
+				processedSections.get(sectionIndex) || "",
+				body,
+				blockId,
+				sourcePath,
+				component,
+				layer.level,
+				refCounts
+			);
+		});
+
+		if (footnotesList.length > 0) {
+			this.renderFootnotesList(
+				tierContent,
+				footnotesList,
+				this.getLayerId(blockId, layer.level),
+				sourcePath,
+				component
+			);
 		}
 
-		// Sort references by their position in the text
-		references.sort((a, b) => a.index - b.index);
+		header.addEventListener("click", () => {
+			tierContent.classList.toggle("collapsed");
+			collapseBtn.textContent = tierContent.classList.contains(
+				"collapsed"
+			)
+				? "▶"
+				: "▼";
+		});
+	}
+
+	// DOM id prefix for a layer's footnotes; the main commentary keeps the
+	// plain block id
+	getLayerId(blockId: string, level: number): string {
+		return level > 1 ? `${blockId}-L${level}` : blockId;
+	}
 
-		// Create footnotes array in order of appearance and replace references
-		let processedText = commentaryText;
-		let offset = 0;
-		const usedFootnotes: Set<number> = new Set();
+	parseBlockContent(source: string): CommentaryDocument {
+		return parseCommentary(source);
+	}
 
-		references.forEach((ref) => {
-			if (!usedFootnotes.has(ref.num)) {
-				// Add to footnotes array if we haven't seen this number before
-				const content =
-					footnoteDefinitions.get(ref.num) ||
-					`Missing footnote definition for ${ref.num}`;
-				footnotesList.push(content);
-				usedFootnotes.add(ref.num);
-			}
+	processFootnotes(
+		doc: CommentaryDocument,
+		blockId: string,
+		level = 1
+	): {
+		// Processed text and commentary keyed by section index
+		processedSections: Map<number, string>;
+		footnotesList: FootnoteListItem[];
+		apparatusList: ApparatusListItem[];
+	} {
+		const footnotesList: FootnoteListItem[] = [];
+		const apparatusList: ApparatusListItem[] = [];
+		// Footnote label in the source → position in order of first appearance
+		const footnoteIndex: Map<string, number> = new Map();
+		const apparatusIndex: Map<number, number> = new Map();
+		const processedSections: Map<number, string> = new Map();
+
+		doc.sections.forEach((section, sectionIndex) => {
+			// The original text belongs with the main commentary
+			const inLayer =
+				section.kind === "commentary"
+					? section.level === level
+					: section.kind === "text" && level === 1;
+			if (!inLayer) return;
+
+			const edits: TextEdit[] = [];
+
+			if (section.kind === "commentary") {
+				doc.references
+					.filter((ref) => ref.section === sectionIndex)
+					.forEach((ref) => {
+						if (!footnoteIndex.has(ref.label)) {
+							footnotesList.push({
+								label: ref.label,
+								definition: getDefinition(doc, ref.label, level),
+							});
+							footnoteIndex.set(ref.label, footnotesList.length);
+						}
 
-			// Get the position of this footnote in the final footnotes array
-			const footnoteIndex =
-				Array.from(usedFootnotes)
-					.sort((a, b) => {
-						// Find first occurrence of each footnote number
-						const aIndex =
-							references.find((r) => r.num === a)?.index ?? 0;
-						const bIndex =
-							references.find((r) => r.num === b)?.index ?? 0;
-						return aIndex - bIndex;
-					})
-					.indexOf(ref.num) + 1;
+						// Replace the reference with the internal marker
+						edits.push({
+							range: ref.range,
+							text: `{{fnref:${footnoteIndex.get(ref.label)}}}`,
+						});
+					});
+			} else {
+				// Apparatus entries are numbered the same way as footnotes
+				doc.lemmas
+					.filter((marker) => marker.section === sectionIndex)
+					.forEach((marker) => {
+						if (!apparatusIndex.has(marker.num)) {
+							apparatusList.push({
+								num: marker.num,
+								index: apparatusList.length + 1,
+								section: sectionIndex,
+								entry: getApparatusEntry(doc, marker.num),
+							});
+							apparatusIndex.set(
+								marker.num,
+								apparatusList.length
+							);
+						}
 
-			// Calculate the actual position accounting for previous replacements
-			const actualIndex = ref.index + offset;
-			const replacement = `{{fnref:${footnoteIndex}}}`;
+						const index = apparatusIndex.get(marker.num);
+						if (marker.lemmaRange) {
+							const start = marker.lemmaRange.start;
+							edits.push({
+								range: { start, end: start },
+								text: `{{lemma:${index}}}`,
+							});
+						}
+						edits.push({
+							range: marker.range,
+							text: `{{appref:${index}}}`,
+						});
+					});
+			}
 
-			// Replace the reference with the internal marker
-			processedText =
-				processedText.substring(0, actualIndex) +
-				replacement +
-				processedText.substring(actualIndex + ref.match.length);
+			// Passages start here; anchor references point one level up
+			doc.anchors
+				.filter((anchor) => anchor.section === sectionIndex)
+				.forEach((anchor) => {
+					edits.push({
+						range: anchor.range,
+						text: `{{anchor:${anchor.num}}}`,
+					});
+				});
+			doc.anchorRefs
+				.filter((ref) => ref.section === sectionIndex)
+				.forEach((ref) => {
+					edits.push({
+						range: ref.range,
+						text: `{{anchorref:${ref.num}}}`,
+					});
+				});
 
-			// Update offset
-			offset += replacement.length - ref.match.length;
+			processedSections.set(
+				sectionIndex,
+				applySectionEdits(section, edits)
+			);
 		});
 
-		return { processedText, footnotesList };
+		return { processedSections, footnotesList, apparatusList };
 	}
 
-	parseFootnoteContent(footnote: string): { type: string; content: string } {
-		const typeMatch = footnote.match(/^(\w+):(.*)$/s);
-		if (typeMatch && FOOTNOTE_TYPES[typeMatch[1]]) {
-			return { type: typeMatch[1], content: typeMatch[2].trim() };
+	parseFootnoteContent(
+		label: string,
+		definition?: FootnoteDefinition
+	): { type: string; content: string } {
+		if (!definition) {
+			return {
+				type: "note",
+				content: `Missing footnote definition for ${label}`,
+			};
 		}
-		return { type: "note", content: footnote };
+		const footnoteType = this.getFootnoteType(definition.typeKeyword);
+		if (footnoteType) {
+			return {
+				type: footnoteType.keyword,
+				content: definition.typeBody,
+			};
+		}
+		return { type: "note", content: definition.content };
 	}
 
 	processFootnoteContent(source: HTMLElement, target: HTMLElement) {
@@ -588,17 +1268,49 @@ export default class CommentaryPlugin extends Plugin {
 	renderCommentaryWithFootnotes(
 		text: string,
 		container: HTMLElement,
-		blockId: string
+		blockId: string,
+		sourcePath: string,
+		component: Component,
+		level = 1,
+		refCounts: Map<string, number> = new Map()
 	) {
-		// First, render the entire markdown content
+		// First, render the entire markdown content. Links and embeds resolve
+		// relative to the note holding the block.
 		const tempContainer = document.createElement("div");
-		MarkdownRenderer.renderMarkdown(text, tempContainer, "", null);
+		MarkdownRenderer.renderMarkdown(
+			text,
+			tempContainer,
+			sourcePath,
+			component
+		);
+
+		// Passages the next layer comments on
+		this.wrapAnchors(tempContainer, blockId, level);
 
 		// Now process the rendered content to replace footnote markers
+		this.replaceMarkers(tempContainer, blockId, level, refCounts);
+
+		// Move processed content to the actual container
+		while (tempContainer.firstChild) {
+			container.appendChild(tempContainer.firstChild);
+		}
+	}
+
+	// References are numbered per footnote across all of a layer's sections,
+	// which share `refCounts`
+	replaceMarkers(
+		root: HTMLElement,
+		blockId: string,
+		level = 1,
+		refCounts: Map<string, number> = new Map()
+	) {
+		const idPrefix = this.getLayerId(blockId, level);
+
 		const processNode = (node: Node) => {
 			if (node.nodeType === Node.TEXT_NODE) {
 				const textContent = node.textContent || "";
-				const fnRefPattern = /\{\{fnref:(\d+)\}\}/g;
+				const fnRefPattern =
+					/\{\{(fnref|anchorref|appref|lemma):(\d+)\}\}/g;
 
 				if (fnRefPattern.test(textContent)) {
 					const fragment = document.createDocumentFragment();
@@ -616,24 +1328,82 @@ export default class CommentaryPlugin extends Plugin {
 							);
 						}
 
-						// Create footnote reference
-						const num = match[1];
+						const num = match[2];
+						lastIndex = match.index + match[0].length;
+
+						// Passage anchor references become a small badge
+						if (match[1] === "anchorref") {
+							const badge = document.createElement("span");
+							badge.className = "anchor-ref";
+							badge.textContent = `§${num}`;
+							badge.setAttribute("data-anchor", num);
+							// Key of the passage, one level up
+							badge.setAttribute(
+								"data-anchor-key",
+								`${level - 1}-${num}`
+							);
+							fragment.appendChild(badge);
+							continue;
+						}
+
+						// Wrap the lemma up to its apparatus reference. A lemma
+						// split by formatting is left unwrapped.
+						if (match[1] === "lemma") {
+							const end = textContent.indexOf(
+								`{{appref:${num}}}`,
+								lastIndex
+							);
+							if (end >= 0) {
+								const lemmaText = textContent.slice(
+									lastIndex,
+									end
+								);
+								const trimmed = lemmaText.replace(/\s+$/, "");
+								const lemma = document.createElement("span");
+								lemma.className = "apparatus-lemma";
+								lemma.setAttribute("data-apparatus", num);
+								lemma.textContent = trimmed;
+								fragment.appendChild(lemma);
+								fragment.appendChild(
+									document.createTextNode(
+										lemmaText.slice(trimmed.length)
+									)
+								);
+								lastIndex = end;
+								fnRefPattern.lastIndex = end;
+							}
+							continue;
+						}
+
+						// Create footnote or apparatus reference
+						const isApparatus = match[1] === "appref";
+						const targetId = isApparatus
+							? `${blockId}-apparatus-${num}`
+							: `${idPrefix}-footnote-${num}`;
 						const sup = document.createElement("sup");
-						sup.className = "footnote-ref";
+						sup.className = isApparatus
+							? "apparatus-ref"
+							: "footnote-ref";
 						const link = document.createElement("a");
 						link.textContent = `[${num}]`;
-						link.href = `#${blockId}-footnote-${num}`;
-						link.id = `${blockId}-ref-${num}`;
+						link.href = `#${targetId}`;
+						if (isApparatus) {
+							link.id = `${blockId}-appref-${num}`;
+						} else {
+							const refId = `${idPrefix}-ref-${num}`;
+							const occurrence = (refCounts.get(refId) || 0) + 1;
+							refCounts.set(refId, occurrence);
+							link.id = `${refId}-${occurrence}`;
+						}
 						link.addEventListener("click", (e) => {
 							e.preventDefault();
-							this.scrollToAndHighlight(
-								`${blockId}-footnote-${num}`
-							);
+							this.scrollToAndHighlight(targetId, link);
 						});
+						if (!isApparatus) {
+							this.attachFootnotePopover(link, targetId);
+						}
 						sup.appendChild(link);
 						fragment.appendChild(sup);
-
-						lastIndex = match.index + match[0].length;
 					}
 
 					// Add remaining text
@@ -657,159 +1427,2045 @@ export default class CommentaryPlugin extends Plugin {
 			}
 		};
 
-		// Process all nodes in the temporary container
-		Array.from(tempContainer.childNodes).forEach((node) =>
-			processNode(node)
-		);
-
-		// Move processed content to the actual container
-		while (tempContainer.firstChild) {
-			container.appendChild(tempContainer.firstChild);
-		}
+		// Process all nodes in the container
+		Array.from(root.childNodes).forEach((node) => processNode(node));
 	}
 
-	createQuickToolbar(toolbar: HTMLElement, blockId: string) {
-		// Copy block ID button
-		const copyBtn = toolbar.createEl("button", {
-			cls: "toolbar-btn",
-			attr: { "aria-label": "Copy Block ID" },
+	createBackReference(parent: HTMLElement, targetId: string) {
+		const backRef = parent.createEl("a", {
+			cls: "footnote-backref",
+			text: "↩",
+			href: `#${targetId}`,
 		});
-		copyBtn.innerHTML = "🔗";
-		copyBtn.addEventListener("click", async () => {
-			await navigator.clipboard.writeText(`[[#${blockId}]]`);
-			new Notice("Block reference copied!");
+		backRef.addEventListener("click", (e) => {
+			e.preventDefault();
+			this.scrollToAndHighlight(targetId, backRef);
 		});
+	}
 
-		// Export button
-		const exportBtn = toolbar.createEl("button", {
-			cls: "toolbar-btn",
-			attr: { "aria-label": "Export Block" },
-		});
-		exportBtn.innerHTML = "📤";
-		exportBtn.addEventListener("click", () => {
-			this.exportBlock(blockId);
-		});
+	renderApparatus(
+		parent: HTMLElement,
+		items: ApparatusListItem[],
+		sigla: Map<string, string>,
+		blockId: string
+	) {
+		const apparatusEl = parent.createDiv({ cls: "commentary-apparatus" });
+		const list = apparatusEl.createEl("ol", { cls: "apparatus-list" });
+
+		items.forEach((item) => {
+			const li = list.createEl("li");
+			li.setAttribute("id", `${blockId}-apparatus-${item.index}`);
+			li.setAttribute("data-apparatus-num", String(item.index));
+			// Keep list numbers in step with the references in the text
+			li.value = item.index;
+
+			this.createBackReference(li, `${blockId}-appref-${item.index}`);
+			li.createEl("span", { text: " " });
+
+			if (!item.entry) {
+				li.createEl("span", {
+					cls: "apparatus-missing",
+					text: `Missing apparatus entry for ${item.num}`,
+				});
+				return;
+			}
 
-		// Statistics button
-		if (this.settings.enableStatistics) {
-			const statsBtn = toolbar.createEl("button", {
-				cls: "toolbar-btn",
-				attr: { "aria-label": "Show Statistics" },
+			if (item.entry.lemma) {
+				li.createEl("span", {
+					cls: "apparatus-lemma-text",
+					text: item.entry.lemma,
+				});
+				li.createEl("span", { text: " ] " });
+			}
+
+			item.entry.readings.forEach((reading, index) => {
+				if (index > 0) li.createEl("span", { text: "; " });
+				const readingEl = li.createEl("span", {
+					cls: "apparatus-reading",
+				});
+				reading.sigla.forEach((siglum) => {
+					const siglumEl = readingEl.createEl("span", {
+						cls: "apparatus-siglum",
+						text: siglum,
+					});
+					const witness = sigla.get(siglum);
+					if (witness) siglumEl.setAttribute("aria-label", witness);
+					readingEl.createEl("span", { text: " " });
+				});
+				readingEl.createEl("span", { text: reading.text });
 			});
-			statsBtn.innerHTML = "📊";
-			statsBtn.addEventListener("click", () => {
-				this.showBlockStatistics(blockId);
+
+			// Hovering the entry or its lemma highlights the other
+			const lemmas = Array.from(
+				parent.querySelectorAll<HTMLElement>(
+					`.apparatus-lemma[data-apparatus="${item.index}"]`
+				)
+			);
+			const setHover = (on: boolean) => {
+				lemmas.forEach((lemma) =>
+					lemma.classList.toggle("anchor-hover", on)
+				);
+				li.classList.toggle("anchor-hover", on);
+			};
+			[li, ...lemmas].forEach((el) => {
+				el.addEventListener("mouseenter", () => setHover(true));
+				el.addEventListener("mouseleave", () => setHover(false));
 			});
-		}
+		});
 	}
 
-	calculateStatistics(
-		commentaryText: string,
-		footnotesText: string = ""
-	): { words: number; footnotes: number } {
-		const words = commentaryText
-			.split(/\s+/)
-			.filter((word) => word.length > 0).length;
+	renderOriginalTextWithAnchors(
+		text: string,
+		container: HTMLElement,
+		blockId: string,
+		sourcePath: string,
+		component: Component
+	) {
+		const tempContainer = document.createElement("div");
+		MarkdownRenderer.renderMarkdown(
+			text,
+			tempContainer,
+			sourcePath,
+			component
+		);
+
+		this.wrapAnchors(tempContainer, blockId, 0);
 
-		// Count footnote references in commentary using the new syntax: $[1], $[2], etc.
-		const footnoteMatches = commentaryText.match(/\$\[(\d+)\]/g);
-		const footnotes = footnoteMatches?.length || 0;
+		// Apparatus lemmas and references
+		this.replaceMarkers(tempContainer, blockId, 0);
 
-		return { words, footnotes };
+		while (tempContainer.firstChild) {
+			container.appendChild(tempContainer.firstChild);
+		}
 	}
 
-	exportBlock(blockId: string) {
-		const blockData = this.blockRegistry.get(blockId);
-		if (!blockData) return;
+	// Text transcluded from another note, with a warning when the passage
+	// no longer matches the hash recorded in the metadata
+	async renderTextSource(
+		container: HTMLElement,
+		source: TextSource,
+		index: number,
+		doc: CommentaryDocument,
+		blockId: string,
+		el: HTMLElement,
+		ctx: MarkdownPostProcessorContext,
+		component: Component
+	) {
+		const target = `${source.linkpath}${source.subpath}`;
+		const link = container.createDiv({ cls: "commentary-source-link" });
+		link.createSpan({ text: "From " });
+		link.createEl("a", {
+			cls: "internal-link",
+			text: target,
+			attr: { "data-href": target, href: target },
+		});
 
-		const exportContent = `# Commentary Block Export\n\n## Original Text\n${
-			blockData.originalText
-		}\n\n## Commentary\n${blockData.commentary}\n\n## Footnotes\n${
-			blockData.footnotes || ""
-		}`;
+		let passage: { file: TFile; text: string } | null;
+		try {
+			passage = await this.readSourcePassage(source, ctx.sourcePath);
+		} catch (error) {
+			container.createDiv({
+				cls: "commentary-source-warning",
+				text: `The source passage could not be read: ${
+					error instanceof Error ? error.message : String(error)
+				}`,
+			});
+			return;
+		}
 
-		const blob = new Blob([exportContent], { type: "text/markdown" });
-		const url = URL.createObjectURL(blob);
-		const a = document.createElement("a");
-		a.href = url;
-		a.download = `commentary-block-${blockId}.md`;
-		a.click();
-		URL.revokeObjectURL(url);
+		if (passage === null) {
+			container.createDiv({
+				cls: "commentary-source-warning",
+				text: "The source passage could not be found",
+			});
+			return;
+		}
 
-		new Notice("Block exported successfully!");
+		const text = container.createDiv();
+		this.renderOriginalTextWithAnchors(
+			passage.text,
+			text,
+			blockId,
+			passage.file.path,
+			component
+		);
+
+		const hash = hashString(passage.text.trim());
+		const recorded = getSourceHashes(doc)[index];
+		if (recorded === hash) return;
+
+		const warning = container.createDiv({
+			cls: recorded
+				? "commentary-source-warning"
+				: "commentary-source-note",
+			text: recorded
+				? "The source passage has changed since this commentary was written"
+				: "This passage is not pinned yet, so later changes can't be detected",
+		});
+		const button = warning.createEl("button", {
+			text: recorded ? "Mark as reviewed" : "Pin current text",
+		});
+		button.addEventListener("click", () => {
+			this.recordSourceHash(el, ctx, index, hash);
+		});
 	}
 
-	showBlockStatistics(blockId: string) {
-		const blockData = this.blockRegistry.get(blockId);
-		if (!blockData) return;
+	async readSourcePassage(
+		source: TextSource,
+		sourcePath: string
+	): Promise<{ file: TFile; text: string } | null> {
+		const { metadataCache } = this.app;
+		const file = source.linkpath
+			? metadataCache.getFirstLinkpathDest(source.linkpath, sourcePath)
+			: this.app.vault.getAbstractFileByPath(sourcePath);
+		if (!(file instanceof TFile)) return null;
+
+		const content = await this.app.vault.cachedRead(file);
+		const cache = metadataCache.getFileCache(file);
+		if (!source.subpath) {
+			const start = cache?.frontmatterPosition?.end.offset ?? 0;
+			return { file, text: content.slice(start).trim() };
+		}
 
-		const stats = this.calculateStatistics(
-			blockData.commentary,
-			blockData.footnotes
-		);
-		const originalStats = this.calculateStatistics(blockData.originalText);
+		const resolved = cache ? resolveSubpath(cache, source.subpath) : null;
+		if (!resolved) return null;
 
-		new Notice(`📊 Block Statistics:
-Original Text: ${originalStats.words} words
-Commentary: ${stats.words} words
-Footnotes: ${stats.footnotes}
-Ratio: ${(stats.words / originalStats.words).toFixed(2)}x`);
+		let text = content.slice(
+			resolved.start.offset,
+			resolved.end?.offset ?? content.length
+		);
+		if (resolved.type === "heading") {
+			// The heading itself isn't part of the passage
+			text = text.slice(text.indexOf("\n") + 1);
+		} else if (resolved.type === "block") {
+			text = text.replace(/\s*\^[A-Za-z0-9-]+\s*$/, "");
+		}
+		return { file, text: text.trim() };
 	}
 
-	toggleAllBlocks() {
-		const blocks = document.querySelectorAll(".commentary-block-content");
-		const shouldCollapse = !document.querySelector(
-			".commentary-block-content.collapsed"
-		);
+	async recordSourceHash(
+		el: HTMLElement,
+		ctx: MarkdownPostProcessorContext,
+		index: number,
+		hash: string
+	) {
+		await this.editRenderedBlock(el, ctx, (doc, source) => {
+			const hashes = getSourceHashes(doc);
+			while (hashes.length < index) hashes.push("");
+			hashes[index] = hash;
+			return [setMetadataValue(doc, "sourcehash", hashes.join(", "))];
+		});
+	}
 
-		blocks.forEach((block) => {
-			if (shouldCollapse) {
-				block.classList.add("collapsed");
-			} else {
-				block.classList.remove("collapsed");
-			}
+	// Applies edits to a block rendered in reading view through its note.
+	// The edits are computed from the note's current content.
+	async editRenderedBlock(
+		el: HTMLElement,
+		ctx: MarkdownPostProcessorContext,
+		compute: (doc: CommentaryDocument, source: string) => TextEdit[]
+	): Promise<boolean> {
+		const file = this.app.vault.getAbstractFileByPath(ctx.sourcePath);
+		const info = ctx.getSectionInfo(el);
+		if (!(file instanceof TFile) || !info) {
+			new Notice("Could not locate this block in its note");
+			return false;
+		}
 
-			const btn = block.parentElement?.querySelector(
-				".commentary-collapse-btn"
+		let found = false;
+		const changed = await this.editNote(file, (content) => {
+			const block = this.findRenderedBlock(
+				findCommentaryBlocks(content),
+				info,
+				el
 			);
-			if (btn) {
-				btn.textContent = shouldCollapse ? "▶" : "▼";
-			}
+			if (!block) return [];
+			found = true;
+			const edits = compute(
+				this.parseBlockContent(block.source),
+				block.source
+			);
+			return toNoteEdits(block, edits);
 		});
+		if (!found) new Notice("Could not locate this block in its note");
+		return changed;
+	}
 
-		new Notice(`All blocks ${shouldCollapse ? "collapsed" : "expanded"}`);
+	// Applies edits to the block as a single undoable change. Returns
+	// whether there was anything to change.
+	editBlockInEditor(
+		editor: Editor,
+		blockBounds: CommentaryBlockBounds,
+		compute: (doc: CommentaryDocument, source: string) => TextEdit[]
+	): boolean {
+		const { block } = blockBounds;
+		const edits = compute(blockBounds.doc, block.source);
+		if (edits.length === 0) return false;
+
+		editor.transaction({
+			changes: toNoteEdits(block, edits).map((edit) => ({
+				from: editor.offsetToPos(edit.range.start),
+				to: editor.offsetToPos(edit.range.end),
+				text: edit.text,
+			})),
+		});
+		return true;
 	}
 
-	scrollToAndHighlight(elementId: string) {
-		const element = document.getElementById(elementId);
-		if (element) {
-			element.scrollIntoView({ behavior: "smooth", block: "center" });
-			element.classList.add("highlight-flash");
-			setTimeout(() => {
-				element.classList.remove("highlight-flash");
-			}, this.settings.highlightDuration);
+	// Right-click menu for a block header, footnote reference or footnote
+	// in reading view
+	showReadingMenu(
+		evt: MouseEvent,
+		container: HTMLElement,
+		blockId: string,
+		el: HTMLElement,
+		ctx: MarkdownPostProcessorContext
+	) {
+		const target = evt.target as HTMLElement;
+		const header = target.closest(".commentary-block-header");
+		const refLink = target.closest("sup.footnote-ref")?.querySelector("a");
+		const item =
+			target.closest<HTMLElement>("li[data-footnote-label]") ||
+			(refLink
+				? this.findInBlock(
+						(refLink.getAttribute("href") || "").slice(1),
+						refLink
+					)
+				: null);
+		if (!header && !item) return;
+
+		evt.preventDefault();
+		const menu = new Menu();
+
+		if (item) {
+			const label = item.getAttribute("data-footnote-label") || "";
+			const layer = item.closest<HTMLElement>(".commentary-layer");
+			const level = layer ? parseInt(layer.dataset.layer || "1") : 1;
+
+			menu.addItem((menuItem) =>
+				menuItem
+					.setTitle("Edit footnote in source")
+					.setIcon("pencil")
+					.onClick(() =>
+						this.editFootnoteInSource(ctx, el, label, level)
+					)
+			);
+			menu.addItem((menuItem) =>
+				menuItem
+					.setTitle("Change footnote type…")
+					.setIcon("shapes")
+					.onClick(() => {
+						new FootnoteTypeModal(this.app, this, (type) => {
+							this.editRenderedBlock(el, ctx, (doc, source) =>
+								setFootnoteType(
+									doc,
+									source,
+									label,
+									level,
+									type.keyword,
+									this.getFootnoteKeywords()
+								)
+							);
+						}).open();
+					})
+			);
+			menu.addItem((menuItem) =>
+				menuItem
+					.setTitle("Delete footnote")
+					.setIcon("trash")
+					.onClick(async () => {
+						const deleted = await this.editRenderedBlock(
+							el,
+							ctx,
+							(doc, source) =>
+								deleteFootnote(doc, source, label, level)
+						);
+						if (deleted) new Notice(`Deleted footnote $[${label}]`);
+					})
+			);
+			menu.addSeparator();
 		}
-	}
 
-	insertCommentaryBlock(editor: Editor) {
-		const template = `\`\`\`commentary
----metadata---
-title: Commentary on [Topic]
-tags: analysis, notes
+		menu.addItem((menuItem) =>
+			menuItem
+				.setTitle("Copy block link")
+				.setIcon("link")
+				.onClick(() => this.copyBlockLink(el, ctx))
+		);
+		menu.addItem((menuItem) =>
+			menuItem
+				.setTitle("Export block")
+				.setIcon("download")
+				.onClick(() => this.exportBlock(blockId))
+		);
+		menu.addItem((menuItem) =>
+			menuItem
+				.setTitle("Show statistics")
+				.setIcon("bar-chart-2")
+				.onClick(() => this.showBlockStatistics(blockId))
+		);
+		menu.addItem((menuItem) =>
+			menuItem
+				.setTitle("Collapse other blocks")
+				.setIcon("fold-vertical")
+				.onClick(() => this.collapseOtherBlocks(container))
+		);
 
----text---
-[Insert the original text to comment on here / متن اصلی را اینجا وارد کنید]
+		menu.showAtMouseEvent(evt);
+	}
 
----commentary---
-Your commentary goes here. Use Ctrl+Shift+F to add footnotes $[1] anywhere in your text.
+	// Footnote actions for the editor's right-click menu; block creation
+	// is offered for any selection
+	addEditorMenuItems(menu: Menu, editor: Editor, file: TFile) {
+		if (editor.somethingSelected()) {
+			menu.addItem((item) =>
+				item
+					.setTitle("Create commentary block from selection")
+					.setIcon("message-square-plus")
+					.onClick(() => this.createBlockFromSelection(editor, file))
+			);
+			menu.addItem((item) =>
+				item
+					.setTitle("Create commentary block in another note…")
+					.setIcon("file-plus")
+					.onClick(() =>
+						this.createBlockFromSelectionInNote(editor, file)
+					)
+			);
+		}
+
+		const cursor = editor.getCursor();
+		const blockBounds = this.getCurrentCommentaryBlockBounds(
+			editor,
+			cursor.line
+		);
+		if (!blockBounds) return;
+
+		const footnote = this.checkFootnoteNavigation(editor, cursor);
+		if (footnote) {
+			const { label, level, inFootnoteSection } = footnote;
+			menu.addItem((item) =>
+				item
+					.setTitle(
+						inFootnoteSection
+							? "Go to footnote reference"
+							: "Go to footnote definition"
+					)
+					.setIcon("arrow-right-left")
+					.onClick(() => this.handleFootnote(editor))
+			);
+			menu.addItem((item) =>
+				item
+					.setTitle("Change footnote type…")
+					.setIcon("shapes")
+					.onClick(() => {
+						new FootnoteTypeModal(this.app, this, (type) => {
+							this.editBlockInEditor(
+								editor,
+								blockBounds,
+								(doc, source) =>
+									setFootnoteType(
+										doc,
+										source,
+										label,
+										level,
+										type.keyword,
+										this.getFootnoteKeywords()
+									)
+							);
+						}).open();
+					})
+			);
+			menu.addItem((item) =>
+				item
+					.setTitle("Convert to inline commentary")
+					.setIcon("parentheses")
+					.onClick(() => this.inlineFootnoteAtCursor(editor))
+			);
+			menu.addItem((item) =>
+				item
+					.setTitle("Delete footnote")
+					.setIcon("trash")
+					.onClick(() => this.deleteFootnoteAtCursor(editor, false))
+			);
+		} else {
+			menu.addItem((item) =>
+				item
+					.setTitle("Insert footnote")
+					.setIcon("plus")
+					.onClick(() => this.handleFootnote(editor))
+			);
+		}
+
+		menu.addItem((item) =>
+			item
+				.setTitle("Renumber footnotes in block")
+				.setIcon("list-ordered")
+				.onClick(() => this.renumberFootnotesInEditor(editor, false))
+		);
+	}
+
+	async editFootnoteInSource(
+		ctx: MarkdownPostProcessorContext,
+		el: HTMLElement,
+		label: string,
+		level: number
+	) {
+		const file = this.app.vault.getAbstractFileByPath(ctx.sourcePath);
+		const info = ctx.getSectionInfo(el);
+		if (!(file instanceof TFile) || !info) return;
+
+		const content = await this.app.vault.read(file);
+		const block = this.findRenderedBlock(
+			findCommentaryBlocks(content),
+			info,
+			el
+		);
+		if (!block) return;
+		const { definition } = findFootnote(
+			this.parseBlockContent(block.source),
+			label,
+			level
+		);
+		if (!definition) {
+			new Notice(`Footnote $[${label}] has no definition`);
+			return;
+		}
+
+		const line = block.startLine + 1 + definition.line;
+		const leaf = this.app.workspace.getLeaf(false);
+		await leaf.openFile(file, {
+			state: { mode: "source" },
+			eState: { line },
+		});
+		if (leaf.view instanceof MarkdownView) {
+			const editor = leaf.view.editor;
+			const position = { line, ch: editor.getLine(line).length };
+			editor.setCursor(position);
+			editor.scrollIntoView({ from: position, to: position }, true);
+			editor.focus();
+		}
+	}
+
+	collapseOtherBlocks(container: HTMLElement) {
+		const view = container.closest(".markdown-preview-view") || document;
+		view
+			.querySelectorAll<HTMLElement>(".commentary-block-container")
+			.forEach((block) => {
+				const collapsed = block !== container;
+				block
+					.querySelector(".commentary-block-content")
+					?.classList.toggle("collapsed", collapsed);
+				const btn = block.querySelector(".commentary-collapse-btn");
+				if (btn) btn.textContent = collapsed ? "▶" : "▼";
+			});
+	}
+
+	// Marks passages of a note that commentary blocks elsewhere transclude,
+	// linking to each block
+	markCommentedPassages(el: HTMLElement, ctx: MarkdownPostProcessorContext) {
+		const info = ctx.getSectionInfo(el);
+		const file = this.app.vault.getAbstractFileByPath(ctx.sourcePath);
+		if (!info || !(file instanceof TFile)) return;
+		const cache = this.app.metadataCache.getFileCache(file);
+		if (!cache) return;
+
+		this.commentaryIndex.getBlocksQuoting(file.path).forEach((block) => {
+			block.sources.forEach((source) => {
+				const target = source.linkpath
+					? this.app.metadataCache.getFirstLinkpathDest(
+							source.linkpath,
+							block.path
+						)
+					: this.app.vault.getAbstractFileByPath(block.path);
+				if (target !== file || !source.subpath) return;
+
+				const resolved = resolveSubpath(cache, source.subpath);
+				const line = resolved?.start.line;
+				if (
+					line === undefined ||
+					line < info.lineStart ||
+					line > info.lineEnd
+				) {
+					return;
+				}
+
+				const host = el.firstElementChild || el;
+				const title = block.metadata.title || "Commentary Block";
+				const marker = host.createEl("a", {
+					cls: "commentary-source-marker",
+					text: "💬",
+					attr: {
+						"aria-label": `Commentary: ${title}`,
+						href: "#",
+					},
+				});
+				marker.addEventListener("click", (e) => {
+					e.preventDefault();
+					const blockFile = this.app.vault.getAbstractFileByPath(
+						block.path
+					);
+					if (blockFile instanceof TFile) {
+						this.openBlock(this.summarizeBlock(blockFile, block));
+					}
+				});
+			});
+		});
+	}
+
+	wrapAnchors(root: HTMLElement, blockId: string, level: number) {
+		// Walk the rendered text in document order. Everything after an
+		// anchor marker belongs to that passage until the next marker, even
+		// across paragraph boundaries.
+		const textNodes: Text[] = [];
+		const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+		while (walker.nextNode()) {
+			textNodes.push(walker.currentNode as Text);
+		}
+
+		let currentAnchor: string | null = null;
+		textNodes.forEach((node) => {
+			const parts = (node.textContent || "").split(
+				/\{\{anchor:(\d+)\}\}/
+			);
+			if (parts.length === 1 && currentAnchor === null) return;
+
+			const fragment = document.createDocumentFragment();
+			parts.forEach((part, index) => {
+				if (index % 2 === 1) {
+					// Odd entries are the captured anchor numbers
+					currentAnchor = part;
+					const marker = document.createElement("sup");
+					marker.className = "text-anchor-marker";
+					if (level === 0) marker.id = `${blockId}-anchor-${part}`;
+					marker.setAttribute("data-anchor", part);
+					marker.setAttribute("data-anchor-key", `${level}-${part}`);
+					marker.textContent = part;
+					fragment.appendChild(marker);
+					return;
+				}
+
+				if (currentAnchor === null || !part.trim()) {
+					if (part) fragment.appendChild(document.createTextNode(part));
+					return;
+				}
+
+				const span = document.createElement("span");
+				span.className = "text-anchor";
+				span.setAttribute("data-anchor", currentAnchor);
+				span.setAttribute("data-anchor-key", `${level}-${currentAnchor}`);
+				span.textContent = part;
+				fragment.appendChild(span);
+			});
+
+			node.parentNode?.replaceChild(fragment, node);
+		});
+	}
+
+	linkAnchors(content: HTMLElement) {
+		// Passages and references are matched by "<level>-<number>" keys,
+		// so each layer links only to the tier it comments on
+		const passagesFor = (key: string) =>
+			Array.from(
+				content.querySelectorAll<HTMLElement>(
+					`.text-anchor[data-anchor-key="${key}"], .text-anchor-marker[data-anchor-key="${key}"]`
+				)
+			);
+		const paragraphsFor = (key: string) =>
+			Array.from(
+				content.querySelectorAll<HTMLElement>(
+					`.anchored-paragraph[data-anchors~="${key}"]`
+				)
+			);
+
+		// Mark the paragraph around each anchor reference
+		const paragraphs = new Set<HTMLElement>();
+		content
+			.querySelectorAll<HTMLElement>(".anchor-ref[data-anchor-key]")
+			.forEach((ref) => {
+				const num = ref.getAttribute("data-anchor-key") || "";
+				const paragraph =
+					ref.closest<HTMLElement>("p, li, blockquote") ||
+					ref.parentElement;
+				if (!paragraph) return;
+
+				const anchors = (paragraph.getAttribute("data-anchors") || "")
+					.split(" ")
+					.filter((a) => a.length > 0);
+				if (!anchors.includes(num)) anchors.push(num);
+				paragraph.setAttribute("data-anchors", anchors.join(" "));
+				paragraph.classList.add("anchored-paragraph");
+				paragraphs.add(paragraph);
+			});
+
+		const setHover = (elements: HTMLElement[], on: boolean) =>
+			elements.forEach((el) => el.classList.toggle("anchor-hover", on));
+
+		// Commentary → passage
+		paragraphs.forEach((paragraph) => {
+			const passages = () =>
+				(paragraph.getAttribute("data-anchors") || "")
+					.split(" ")
+					.reduce(
+						(all: HTMLElement[], num) => all.concat(passagesFor(num)),
+						[]
+					);
+
+			paragraph.addEventListener("mouseenter", () =>
+				setHover(passages(), true)
+			);
+			paragraph.addEventListener("mouseleave", () =>
+				setHover(passages(), false)
+			);
+			paragraph.addEventListener("click", (e) => {
+				if ((e.target as HTMLElement).closest("a")) return;
+				this.highlightElements(passages());
+			});
+		});
+
+		// Passage → commentary
+		const passageElements = content.querySelectorAll<HTMLElement>(
+			".text-anchor[data-anchor-key], .text-anchor-marker[data-anchor-key]"
+		);
+		passageElements.forEach((passage) => {
+			const num = passage.getAttribute("data-anchor-key") || "";
+			const linked = paragraphsFor(num);
+
+			if (linked.length === 0) {
+				passage.classList.add("text-anchor-uncommented");
+				passage.setAttribute("aria-label", "No commentary yet");
+				return;
+			}
+
+			passage.addEventListener("mouseenter", () => {
+				setHover(linked, true);
+				setHover(passagesFor(num), true);
+			});
+			passage.addEventListener("mouseleave", () => {
+				setHover(linked, false);
+				setHover(passagesFor(num), false);
+			});
+			passage.addEventListener("click", (e) => {
+				if ((e.target as HTMLElement).closest("a")) return;
+				this.highlightElements(linked);
+			});
+		});
+	}
+
+	createQuickToolbar(
+		toolbar: HTMLElement,
+		blockId: string,
+		el: HTMLElement,
+		ctx: MarkdownPostProcessorContext
+	) {
+		// Copy block link button
+		const copyBtn = toolbar.createEl("button", {
+			cls: "toolbar-btn",
+			attr: { "aria-label": "Copy Block Link" },
+		});
+		copyBtn.innerHTML = "🔗";
+		copyBtn.addEventListener("click", async (e) => {
+			e.stopPropagation();
+			await this.copyBlockLink(el, ctx);
+		});
+
+		// Export button
+		const exportBtn = toolbar.createEl("button", {
+			cls: "toolbar-btn",
+			attr: { "aria-label": "Export Block" },
+		});
+		exportBtn.innerHTML = "📤";
+		exportBtn.addEventListener("click", () => {
+			this.exportBlock(blockId);
+		});
+
+		// Statistics button
+		if (this.settings.enableStatistics) {
+			const statsBtn = toolbar.createEl("button", {
+				cls: "toolbar-btn",
+				attr: { "aria-label": "Show Statistics" },
+			});
+			statsBtn.innerHTML = "📊";
+			statsBtn.addEventListener("click", () => {
+				this.showBlockStatistics(blockId);
+			});
+		}
+	}
+
+	// The block id used for links and DOM anchors. An Obsidian `^block-id`
+	// after the closing fence wins, then `id:` in the metadata. Blocks with
+	// neither get an id derived from their position in the note; copying a
+	// link gives them a lasting one first.
+	resolveBlockId(
+		source: string,
+		doc: CommentaryDocument,
+		el: HTMLElement,
+		ctx: MarkdownPostProcessorContext
+	): string {
+		const info = ctx.getSectionInfo(el);
+		const blocks = info ? findCommentaryBlocks(info.text) : [];
+		const block = info
+			? this.findRenderedBlock(blocks, info, el)
+			: undefined;
+		const index = block ? blocks.indexOf(block) : -1;
+
+		return index >= 0
+			? this.getBlockIdAt(ctx.sourcePath, blocks[index].blockRef, index, doc)
+			: getBlockId(doc) ||
+					`commentary-${hashString(ctx.sourcePath + source)}`;
+	}
+
+	// The block a code block processor is rendering. Blocks in a callout
+	// share the callout's section, so they are told apart by their source;
+	// a block that can't be singled out is not found.
+	findRenderedBlock(
+		blocks: CommentaryBlockLocation[],
+		info: { lineStart: number; lineEnd: number },
+		el: HTMLElement
+	): CommentaryBlockLocation | undefined {
+		const atStart = blocks.find(
+			(block) => block.startLine === info.lineStart
+		);
+		if (atStart) return atStart;
+
+		const source = this.renderedSources.get(el);
+		if (source === undefined) return undefined;
+		const trim = (text: string) => text.replace(/\s+$/, "");
+		const matches = blocks.filter(
+			(block) =>
+				block.startLine > info.lineStart &&
+				block.startLine <= info.lineEnd &&
+				trim(block.source) === trim(source)
+		);
+		return matches.length === 1 ? matches[0] : undefined;
+	}
+
+	// Id of the index-th block of a note, the same whether it is rendered or
+	// only read from the note's text
+	getBlockIdAt(
+		path: string,
+		blockRef: string | undefined,
+		index: number,
+		doc: CommentaryDocument
+	): string {
+		return (
+			blockRef ||
+			getBlockId(doc) ||
+			`commentary-${hashString(path)}-${index + 1}`
+		);
+	}
+
+	// Copies a link Obsidian resolves natively, adding the `^block-id` line
+	// after the fence when the block doesn't have one yet. The new id is the
+	// block's `id:` or a fresh one, never the position-derived id, which
+	// would change as blocks are added above it or the note is renamed.
+	async copyBlockLink(
+		el: HTMLElement,
+		ctx: MarkdownPostProcessorContext
+	) {
+		const file = this.app.vault.getAbstractFileByPath(ctx.sourcePath);
+		const info = ctx.getSectionInfo(el);
+		if (!(file instanceof TFile) || !info) {
+			new Notice("Could not locate this block in its note");
+			return;
+		}
+
+		let ref = "";
+		let problem = "Could not locate this block in its note";
+		await this.editNote(file, (content) => {
+			const block = this.findRenderedBlock(
+				findCommentaryBlocks(content),
+				info,
+				el
+			);
+			if (!block) return [];
+			if (block.blockRef) {
+				ref = block.blockRef;
+				return [];
+			}
+
+			const lines = splitLines(content);
+			if (block.endLine >= lines.count) {
+				problem = "Close the commentary block's fence to link to it";
+				return [];
+			}
+			// Obsidian block ids are letters, digits and dashes
+			const id = getBlockId(this.parseBlockContent(block.source));
+			ref = id && /^[A-Za-z0-9-]+$/.test(id) ? id : createBlockId();
+			// Inside a callout the id line needs its markers too, or it
+			// would end the callout
+			const line = `${block.quote}^${ref}`;
+			const at = lines.offset(block.endLine + 1);
+			return [
+				{
+					range: { start: at, end: at },
+					text:
+						block.endLine + 1 < lines.count
+							? `${line}\n`
+							: `\n${line}`,
+				},
+			];
+		});
+		if (!ref) {
+			new Notice(problem);
+			return;
+		}
+
+		const link = this.app.fileManager.generateMarkdownLink(
+			file,
+			ctx.sourcePath,
+			`#^${ref}`
+		);
+		await navigator.clipboard.writeText(link);
+		new Notice("Block link copied!");
+	}
+
+	// Applies edits computed from a note's current text. An open note is
+	// changed through its editor, so undo and the cursor keep working, and
+	// unsaved typing isn't lost; otherwise the file is changed atomically.
+	// Returns whether there was anything to change.
+	async editNote(
+		file: TFile,
+		compute: (content: string) => TextEdit[]
+	): Promise<boolean> {
+		const view = this.app.workspace
+			.getLeavesOfType("markdown")
+			.map((leaf) => leaf.view)
+			.find(
+				(candidate): candidate is MarkdownView =>
+					candidate instanceof MarkdownView && candidate.file === file
+			);
+		if (view) {
+			const editor = view.editor;
+			const edits = compute(editor.getValue());
+			if (edits.length === 0) return false;
+			editor.transaction({
+				changes: edits.map((edit) => ({
+					from: editor.offsetToPos(edit.range.start),
+					to: editor.offsetToPos(edit.range.end),
+					text: edit.text,
+				})),
+			});
+			return true;
+		}
+
+		let changed = false;
+		await this.app.vault.process(file, (content) => {
+			const edits = compute(content);
+			changed = edits.length > 0;
+			return applyTextEdits(content, edits);
+		});
+		return changed;
+	}
+
+	// Expands and highlights a block after following a link to it
+	revealBlock(blockId: string) {
+		const containers = Array.from(
+			document.querySelectorAll<HTMLElement>(
+				`.commentary-block-container[data-block-id="${blockId}"]`
+			)
+		);
+		const active = this.app.workspace.getActiveViewOfType(MarkdownView);
+		const container =
+			containers.find((el) => active?.containerEl.contains(el)) ||
+			containers[0];
+		if (!container) return;
+
+		const content = container.querySelector(".commentary-block-content");
+		if (content?.classList.contains("collapsed")) {
+			content.classList.remove("collapsed");
+			const btn = container.querySelector(".commentary-collapse-btn");
+			if (btn) btn.textContent = "▼";
+		}
+		this.highlightElements([container]);
+	}
+
+	calculateStatistics(
+		doc: CommentaryDocument,
+		kind: SectionKind = "commentary",
+		sectionIndex?: number
+	): { words: number; footnotes: number; named: number } {
+		// Either a single section or every section of the given kind
+		const text =
+			sectionIndex !== undefined
+				? doc.sections[sectionIndex].body
+				: getSectionText(doc, kind);
+		const words = text.split(/\s+/).filter((word) => word.length > 0).length;
+
+		// Count footnote references made from those sections
+		const references = doc.references.filter((ref) =>
+			sectionIndex !== undefined
+				? ref.section === sectionIndex
+				: doc.sections[ref.section].kind === kind &&
+					getLevel(doc, ref) <= 1
+		);
+		const named = references.filter(
+			(ref) => !isNumericLabel(ref.label)
+		).length;
+
+		return { words, footnotes: references.length, named };
+	}
+
+	exportBlock(blockId: string) {
+		const doc = this.blockRegistry.get(blockId);
+		if (!doc) return;
+
+		// One original text / commentary pair per segment
+		const passages = doc.segments
+			.map((segment) => {
+				const text =
+					segment.text !== undefined
+						? doc.sections[segment.text].body
+						: "";
+				const commentary =
+					segment.commentary !== undefined
+						? doc.sections[segment.commentary].body
+						: "";
+				return `## Original Text\n${text}\n\n## Commentary\n${commentary}`;
+			})
+			.join("\n\n");
+
+		// Super-commentary layers follow the main commentary
+		let layers = "";
+		for (let layer = doc.layers; layer; layer = layer.child) {
+			if (layer.level <= 1) continue;
+			const title = LAYER_TITLES[layer.level] || `Layer ${layer.level}`;
+			layers += `\n\n## ${title}\n${getSectionText(
+				doc,
+				"commentary",
+				layer.level
+			)}\n\n### Footnotes\n${getSectionText(
+				doc,
+				"footnote",
+				layer.level
+			)}`;
+		}
+
+		const exportContent = `# Commentary Block Export\n\n${passages}\n\n## Footnotes\n${getSectionText(
+			doc,
+			"footnote"
+		)}${layers}`;
+
+		const blob = new Blob([exportContent], { type: "text/markdown" });
+		const url = URL.createObjectURL(blob);
+		const a = document.createElement("a");
+		a.href = url;
+		a.download = `${blockId}.md`;
+		a.click();
+		URL.revokeObjectURL(url);
+
+		new Notice("Block exported successfully!");
+	}
+
+	showBlockStatistics(blockId: string) {
+		const doc = this.blockRegistry.get(blockId);
+		if (!doc) return;
+
+		const stats = this.calculateStatistics(doc);
+		const originalStats = this.calculateStatistics(doc, "text");
+
+		const uncommented = getUncommentedAnchors(doc);
+		const passagesLine =
+			doc.anchors.length > 0
+				? `\nUncommented passages: ${uncommented.length} of ${doc.anchors.length}`
+				: "";
+		const namedLine = stats.named > 0 ? ` (${stats.named} named)` : "";
+
+		new Notice(`📊 Block Statistics:
+Original Text: ${originalStats.words} words
+Commentary: ${stats.words} words
+Footnotes: ${stats.footnotes}${namedLine}
+Ratio: ${(stats.words / originalStats.words).toFixed(2)}x${passagesLine}`);
+	}
+
+	showUncommentedPassages(editor: Editor) {
+		const blockBounds = this.getCurrentCommentaryBlockBounds(
+			editor,
+			editor.getCursor().line
+		);
+		if (!blockBounds) {
+			new Notice("Place cursor inside a commentary block");
+			return;
+		}
+
+		const { doc } = blockBounds;
+		if (doc.anchors.length === 0) {
+			new Notice("This block has no passage anchors like @[1].");
+			return;
+		}
+
+		const uncommented = getUncommentedAnchors(doc);
+		if (uncommented.length === 0) {
+			new Notice("Every passage in this block has commentary.");
+			return;
+		}
+
+		new Notice(
+			`Passages without commentary: ${uncommented
+				.map((anchor) => `@[${anchor.num}]`)
+				.join(", ")}`
+		);
+	}
+
+	// Rewrites footnote numbers as one transaction so a single undo reverts
+	// every block
+	renumberFootnotesInEditor(editor: Editor, wholeNote: boolean) {
+		const cursorLine = editor.getCursor().line;
+		const index = this.getBlockIndex(editor);
+		const current = index.blockAt(cursorLine);
+		const blocks = wholeNote ? index.blocks : current ? [current] : [];
+
+		if (blocks.length === 0) {
+			new Notice(
+				wholeNote
+					? "This note has no commentary blocks"
+					: "Place cursor inside a commentary block"
+			);
+			return;
+		}
+
+		const changes: EditorChange[] = [];
+		let renumbered = 0;
+		blocks.forEach((block) => {
+			const edits = renumberFootnotes(index.getDoc(block));
+			if (edits.length === 0) return;
+			renumbered++;
+			toNoteEdits(block, edits).forEach((edit) =>
+				changes.push({
+					from: editor.offsetToPos(edit.range.start),
+					to: editor.offsetToPos(edit.range.end),
+					text: edit.text,
+				})
+			);
+		});
+
+		if (renumbered === 0) {
+			new Notice("Footnotes are already numbered in order");
+			return;
+		}
+
+		editor.transaction({ changes });
+		new Notice(
+			`Renumbered footnotes in ${renumbered} block${
+				renumbered === 1 ? "" : "s"
+			}`
+		);
+	}
+
+	// Footnote under the cursor, for the footnote editing commands
+	getFootnoteAtCursor(editor: Editor): {
+		blockBounds: CommentaryBlockBounds;
+		label: string;
+		level: number;
+	} | null {
+		const cursor = editor.getCursor();
+		const blockBounds = this.getCurrentCommentaryBlockBounds(
+			editor,
+			cursor.line
+		);
+		const footnote =
+			blockBounds && this.checkFootnoteNavigation(editor, cursor);
+		if (!blockBounds || !footnote) {
+			new Notice("Place cursor on a footnote reference or definition");
+			return null;
+		}
+		return { blockBounds, label: footnote.label, level: footnote.level };
+	}
+
+	// Removes the footnote's definition and references, optionally
+	// renumbering the rest so no gap is left
+	deleteFootnoteAtCursor(editor: Editor, renumber: boolean) {
+		const footnote = this.getFootnoteAtCursor(editor);
+		if (!footnote) return;
+		const { blockBounds, label, level } = footnote;
+
+		const deleted = this.editBlockInEditor(
+			editor,
+			blockBounds,
+			(doc, source) => {
+				const edits = deleteFootnote(doc, source, label, level);
+				if (!renumber || edits.length === 0) return edits;
+				return composeTextEdits(
+					source,
+					edits,
+					renumberFootnotes(
+						parseCommentary(applyTextEdits(source, edits))
+					)
+				);
+			}
+		);
+		if (deleted) new Notice(`Deleted footnote ${label}`);
+	}
+
+	inlineFootnoteAtCursor(editor: Editor) {
+		const footnote = this.getFootnoteAtCursor(editor);
+		if (!footnote) return;
+		const { blockBounds, label, level } = footnote;
+
+		const converted = this.editBlockInEditor(
+			editor,
+			blockBounds,
+			(doc, source) => inlineFootnote(doc, source, label, level)
+		);
+		new Notice(
+			converted
+				? `Footnote ${label} is now inline commentary`
+				: `Footnote ${label} needs a definition and a reference to convert`
+		);
+	}
+
+	// Turns the parenthetical around the cursor into the next footnote of
+	// the layer
+	parentheticalToFootnote(editor: Editor) {
+		const cursor = editor.getCursor();
+		const blockBounds = this.getCurrentCommentaryBlockBounds(
+			editor,
+			cursor.line
+		);
+		const section =
+			blockBounds &&
+			getSectionAtLine(
+				blockBounds.doc,
+				cursor.line - blockBounds.startLine - 1
+			);
+		if (!blockBounds || section?.kind !== "commentary") {
+			new Notice("Place cursor inside a parenthetical in the commentary");
+			return;
+		}
+
+		const level = this.getLayerAtLine(blockBounds, cursor.line);
+		const label = String(
+			this.getNextFootnoteNumberInBlock(editor, blockBounds, level)
+		);
+		const offset = toSourceOffset(
+			blockBounds.block,
+			cursor.line - blockBounds.startLine - 1,
+			cursor.ch
+		);
+
+		const converted = this.editBlockInEditor(
+			editor,
+			blockBounds,
+			(doc, source) => {
+				const range = findParenthetical(source, offset);
+				return range
+					? footnoteFromParenthetical(
+							doc,
+							source,
+							range,
+							label,
+							level,
+							this.settings.defaultFootnoteType || undefined
+						)
+					: [];
+			}
+		);
+		new Notice(
+			converted
+				? `Parenthetical moved to footnote ${label}`
+				: "Place cursor inside a parenthetical in the commentary"
+		);
+	}
+
+	mergeFootnoteAtCursor(editor: Editor) {
+		const footnote = this.getFootnoteAtCursor(editor);
+		if (!footnote) return;
+		const { blockBounds, label, level } = footnote;
+
+		const others = this.getSeriesDefinitions(blockBounds, level).filter(
+			(def) => def.label !== label
+		);
+		if (others.length === 0) {
+			new Notice("This block has no other footnote to merge into");
+			return;
+		}
+
+		new FootnotePickerModal(
+			this.app,
+			others,
+			`Merge footnote ${label} into…`,
+			(target) => {
+				const merged = this.editBlockInEditor(
+					editor,
+					blockBounds,
+					(doc, source) =>
+						mergeFootnotes(doc, source, label, target.label, level)
+				);
+				if (merged) {
+					new Notice(`Merged footnote ${label} into ${target.label}`);
+				}
+			}
+		).open();
+	}
+
+	// Moves the first reference of a chosen footnote to the cursor
+	moveFootnoteHere(editor: Editor) {
+		const cursor = editor.getCursor();
+		const blockBounds = this.getCurrentCommentaryBlockBounds(
+			editor,
+			cursor.line
+		);
+		if (!blockBounds) {
+			new Notice("Place cursor inside a commentary block");
+			return;
+		}
+
+		const level = this.getLayerAtLine(blockBounds, cursor.line);
+		const definitions = this.getSeriesDefinitions(blockBounds, level);
+		if (definitions.length === 0) {
+			new Notice("This block has no footnotes to move");
+			return;
+		}
+
+		const offset = toSourceOffset(
+			blockBounds.block,
+			cursor.line - blockBounds.startLine - 1,
+			cursor.ch
+		);
+		new FootnotePickerModal(
+			this.app,
+			definitions,
+			"Footnote to move here",
+			(target) => {
+				const moved = this.editBlockInEditor(
+					editor,
+					blockBounds,
+					(doc, source) =>
+						moveFootnote(doc, source, target.label, level, offset)
+				);
+				if (!moved) {
+					new Notice(
+						`Footnote ${target.label} has no reference to move`
+					);
+				}
+			}
+		).open();
+	}
+
+	// Definitions of one footnote series, without overridden duplicates
+	getSeriesDefinitions(
+		blockBounds: CommentaryBlockBounds,
+		level: number
+	): FootnoteDefinition[] {
+		const { doc } = blockBounds;
+		return doc.definitions.filter(
+			(def) =>
+				this.getFootnoteLevel(doc, def) === level &&
+				getDefinition(doc, def.label, level) === def
+		);
+	}
+
+	lintContent(file: TFile, content: string): CommentaryProblem[] {
+		const types = this.settings.footnoteTypes.map((type) => type.keyword);
+		const problems: CommentaryProblem[] = [];
+
+		findCommentaryBlocks(content).forEach((block) => {
+			const doc = parseCommentary(block.source);
+			lintCommentary(doc, block.source, types).forEach((diagnostic) => {
+				problems.push({
+					file,
+					line: block.startLine + 1 + diagnostic.line,
+					block,
+					diagnostic,
+				});
+			});
+		});
+
+		return problems;
+	}
+
+	summarizeBlock(file: TFile, block: IndexedBlock): CommentaryBlockSummary {
+		const types = this.settings.footnoteTypes.map((type) => type.keyword);
+		const { doc } = block;
+		const diagnostics = lintCommentary(doc, serializeCommentary(doc), types);
+
+		return {
+			file,
+			line: block.startLine,
+			blockId: this.getBlockIdAt(
+				file.path,
+				block.blockRef,
+				block.index,
+				doc
+			),
+			title: doc.metadata.title || "Commentary Block",
+			tags: doc.metadata.tags || [],
+			words: block.commentaryWords,
+			footnotes: doc.definitions.length,
+			footnoteTypes: Object.keys(block.footnotes),
+			errors: diagnostics.filter((d) => d.severity === "error").length,
+			warnings: diagnostics.filter((d) => d.severity === "warning").length,
+		};
+	}
+
+	// Index every note once the vault has loaded; after that, file events
+	// keep it current
+	async buildIndex() {
+		this.commentaryIndex.clear();
+		this.indexedTypes = this.getFootnoteTypeKeywords();
+		for (const file of this.app.vault.getMarkdownFiles()) {
+			await this.indexFile(file);
+		}
+		this.commentaryIndex.notify("");
+
+		// Notes rendered before the index existed are missing their
+		// commented-passage markers
+		this.app.workspace.getLeavesOfType("markdown").forEach((leaf) => {
+			if (leaf.view instanceof MarkdownView) {
+				leaf.view.previewMode.rerender(true);
+			}
+		});
+	}
+
+	async indexFile(file: TAbstractFile) {
+		if (!(file instanceof TFile) || file.extension !== "md") return;
+		const content = await this.app.vault.cachedRead(file);
+		this.commentaryIndex.update(file.path, content);
+	}
+
+	getFootnoteTypeKeywords(): string {
+		return this.settings.footnoteTypes.map((type) => type.keyword).join(",");
+	}
+
+	async activateExplorerView(): Promise<CommentaryExplorerView | null> {
+		const { workspace } = this.app;
+		let leaf = workspace.getLeavesOfType(VIEW_TYPE_COMMENTARY_EXPLORER)[0];
+
+		if (!leaf) {
+			const right = workspace.getRightLeaf(false);
+			if (!right) return null;
+			await right.setViewState({
+				type: VIEW_TYPE_COMMENTARY_EXPLORER,
+				active: true,
+			});
+			leaf = right;
+		}
+
+		workspace.revealLeaf(leaf);
+		return leaf.view instanceof CommentaryExplorerView ? leaf.view : null;
+	}
+
+	async activateTagsView() {
+		const { workspace } = this.app;
+		let leaf = workspace.getLeavesOfType(VIEW_TYPE_COMMENTARY_TAGS)[0];
+
+		if (!leaf) {
+			const right = workspace.getRightLeaf(false);
+			if (!right) return;
+			await right.setViewState({
+				type: VIEW_TYPE_COMMENTARY_TAGS,
+				active: true,
+			});
+			leaf = right;
+		}
+
+		workspace.revealLeaf(leaf);
+	}
+
+	// Number of blocks carrying each tag, across the vault
+	getTagCounts(): Map<string, number> {
+		const counts: Map<string, number> = new Map();
+		this.commentaryIndex.getBlocks().forEach((block) => {
+			(block.metadata.tags || []).forEach((tag) => {
+				counts.set(tag, (counts.get(tag) || 0) + 1);
+			});
+		});
+		return counts;
+	}
+
+	renderTag(parent: HTMLElement, tag: string) {
+		const link = parent.createEl("a", {
+			cls: "tag commentary-tag",
+			text: `#${tag}`,
+			attr: { href: `#${tag}` },
+		});
+		link.addEventListener("click", (e) => {
+			e.preventDefault();
+			e.stopPropagation();
+			this.openTagSearch(tag);
+		});
+	}
+
+	// Tags synced into frontmatter are found by Obsidian's own tag search;
+	// the explorer covers blocks in notes that aren't synced
+	openTagSearch(tag: string) {
+		const { internalPlugins } = this.app as unknown as {
+			internalPlugins?: {
+				getPluginById(id: string): GlobalSearchPlugin | null;
+			};
+		};
+		const search = internalPlugins?.getPluginById("global-search");
+
+		if (this.settings.syncFrontmatter && search?.instance) {
+			search.instance.openGlobalSearch(`tag:#${tag}`);
+			return;
+		}
+		this.showTagInExplorer(tag);
+	}
+
+	async showTagInExplorer(tag: string) {
+		const view = await this.activateExplorerView();
+		view?.showTag(tag);
+	}
+
+	// Mirror the note's block titles and tags into its properties. Tags are
+	// added to `tags` too, and ones added by an earlier sync are removed once
+	// no block carries them.
+	async syncFrontmatter(
+		file: TFile,
+		content: string,
+		frontmatter: Record<string, unknown> = {}
+	) {
+		const titles: string[] = [];
+		const tags: string[] = [];
+		findCommentaryBlocks(content).forEach((block) => {
+			const { metadata } = this.parseBlockContent(block.source);
+			if (metadata.title && !titles.includes(metadata.title)) {
+				titles.push(metadata.title);
+			}
+			(metadata.tags || []).forEach((tag) => {
+				if (OBSIDIAN_TAG_PATTERN.test(tag) && !tags.includes(tag)) {
+					tags.push(tag);
+				}
+			});
+		});
+
+		const list = (value: unknown): string[] =>
+			Array.isArray(value)
+				? value.map(String)
+				: typeof value === "string" && value
+				? [value]
+				: [];
+		const previous = list(frontmatter[TAGS_PROPERTY]);
+		const existing = list(frontmatter.tags);
+		const merged = existing.filter(
+			(tag) => !previous.includes(tag) || tags.includes(tag)
+		);
+		tags.forEach((tag) => {
+			if (!merged.includes(tag)) merged.push(tag);
+		});
+
+		// Writing triggers another change event, so only write differences
+		const same = (a: string[], b: string[]) => a.join("\n") === b.join("\n");
+		if (
+			same(titles, list(frontmatter[TITLES_PROPERTY])) &&
+			same(tags, previous) &&
+			same(merged, existing)
+		) {
+			return;
+		}
+
+		await this.app.fileManager.processFrontMatter(file, (properties) => {
+			const set = (key: string, values: string[]) => {
+				if (values.length > 0) {
+					properties[key] = values;
+				} else {
+					delete properties[key];
+				}
+			};
+			set(TITLES_PROPERTY, titles);
+			set(TAGS_PROPERTY, tags);
+			set("tags", merged);
+		});
+	}
+
+	async syncFrontmatterInActiveNote() {
+		const file = this.app.workspace.getActiveFile();
+		if (!file) {
+			new Notice("Open a note to sync its commentary properties");
+			return;
+		}
+		const content = await this.app.vault.read(file);
+		await this.syncFrontmatter(
+			file,
+			content,
+			this.app.metadataCache.getFileCache(file)?.frontmatter
+		);
+		new Notice("Commentary titles and tags synced to properties");
+	}
+
+	// Opens the note at the block, or at a line inside it; in reading view
+	// the block is expanded too
+	async openBlock(summary: CommentaryBlockSummary, line = summary.line) {
+		const leaf = this.app.workspace.getLeaf(false);
+		await leaf.openFile(summary.file, { eState: { line } });
+
+		if (leaf.view instanceof MarkdownView) {
+			if (leaf.view.getMode() === "source") {
+				const editor = leaf.view.editor;
+				const position = { line, ch: 0 };
+				editor.setCursor(position);
+				editor.scrollIntoView({ from: position, to: position }, true);
+				editor.focus();
+			} else {
+				window.setTimeout(() => this.revealBlock(summary.blockId), 300);
+			}
+		}
+	}
+
+	// Obsidian doesn't index links inside code blocks, so block links are
+	// added to its resolved and unresolved link tables, which the graph and
+	// link counts read. The tables are rebuilt at runtime and never saved,
+	// and Obsidian replaces a note's entry whenever it re-resolves the note,
+	// so additions can't build up: `fresh` (the note was just re-resolved)
+	// or a replaced entry means the earlier additions are already gone.
+	contributeLinks(path: string, fresh: boolean) {
+		const { metadataCache } = this.app;
+		const adjust = (
+			tables: Record<string, Record<string, number>>,
+			counts: Record<string, number>,
+			sign: number,
+			entries: Record<string, number>[]
+		) => {
+			if (sign < 0 && !entries.includes(tables[path])) return;
+			const table = (tables[path] = tables[path] || {});
+			Object.keys(counts).forEach((target) => {
+				const count = (table[target] || 0) + sign * counts[target];
+				if (count > 0) {
+					table[target] = count;
+				} else {
+					delete table[target];
+				}
+			});
+			if (sign > 0) entries.push(table);
+		};
+
+		const previous = this.linkContributions.get(path);
+		if (previous && !fresh) {
+			const { resolved, unresolved, entries } = previous;
+			adjust(metadataCache.resolvedLinks, resolved, -1, entries);
+			adjust(metadataCache.unresolvedLinks, unresolved, -1, entries);
+		}
+
+		const next: LinkContribution = {
+			resolved: {},
+			unresolved: {},
+			entries: [],
+		};
+		this.commentaryIndex.getNote(path).forEach((block) => {
+			block.links.forEach((link) => {
+				const dest = metadataCache.getFirstLinkpathDest(
+					link.linkpath,
+					path
+				);
+				const counts = dest ? next.resolved : next.unresolved;
+				const target = dest ? dest.path : link.linkpath;
+				counts[target] = (counts[target] || 0) + 1;
+			});
+		});
+
+		if (
+			Object.keys(next.resolved).length === 0 &&
+			Object.keys(next.unresolved).length === 0
+		) {
+			this.linkContributions.delete(path);
+			return;
+		}
+		adjust(metadataCache.resolvedLinks, next.resolved, 1, next.entries);
+		adjust(metadataCache.unresolvedLinks, next.unresolved, 1, next.entries);
+		this.linkContributions.set(path, next);
+	}
+
+	// Update every note that has or had block links
+	refreshLinkContributions() {
+		const paths = new Set(this.linkContributions.keys());
+		this.commentaryIndex
+			.getBlocks()
+			.forEach((block) => paths.add(block.path));
+		paths.forEach((path) => this.contributeLinks(path, false));
+	}
+
+	// Folder moves and bulk deletes arrive as one event per note
+	scheduleLinkRefresh() {
+		if (this.linkTimer !== null) window.clearTimeout(this.linkTimer);
+		this.linkTimer = window.setTimeout(() => {
+			this.linkTimer = null;
+			this.refreshLinkContributions();
+		}, 500);
+	}
+
+	// Blocks anywhere in the vault with links that resolve to the note
+	getCommentaryBacklinks(
+		file: TFile
+	): { block: IndexedBlock; links: IndexedLink[] }[] {
+		const { metadataCache } = this.app;
+		const backlinks: { block: IndexedBlock; links: IndexedLink[] }[] = [];
+
+		this.commentaryIndex.getBlocks().forEach((block) => {
+			const links = block.links.filter(
+				(link) =>
+					metadataCache.getFirstLinkpathDest(link.linkpath, block.path)
+						?.path === file.path
+			);
+			if (links.length > 0) backlinks.push({ block, links });
+		});
+
+		return backlinks;
+	}
+
+	async activateBacklinksView() {
+		const { workspace } = this.app;
+		let leaf = workspace.getLeavesOfType(VIEW_TYPE_COMMENTARY_BACKLINKS)[0];
+
+		if (!leaf) {
+			const right = workspace.getRightLeaf(false);
+			if (!right) return;
+			await right.setViewState({
+				type: VIEW_TYPE_COMMENTARY_BACKLINKS,
+				active: true,
+			});
+			leaf = right;
+		}
+
+		workspace.revealLeaf(leaf);
+	}
+
+	async runLint(scope: LintScope) {
+		let files: TFile[];
+		if (scope === "note") {
+			const file = this.app.workspace.getActiveFile();
+			if (!file) {
+				new Notice("Open a note to lint its commentary blocks");
+				return;
+			}
+			files = [file];
+		} else {
+			files = this.app.vault.getMarkdownFiles();
+		}
+
+		const problems: CommentaryProblem[] = [];
+		for (const file of files) {
+			const content = await this.app.vault.cachedRead(file);
+			problems.push(...this.lintContent(file, content));
+		}
+
+		const view = await this.activateProblemsView();
+		view?.setProblems(scope, problems);
+
+		const plural = problems.length === 1 ? "" : "s";
+		new Notice(
+			problems.length === 0
+				? "No problems found in commentary blocks"
+				: `Found ${problems.length} problem${plural} in commentary blocks`
+		);
+	}
+
+	async activateProblemsView(): Promise<CommentaryProblemsView | null> {
+		const { workspace } = this.app;
+		let leaf = workspace.getLeavesOfType(VIEW_TYPE_COMMENTARY_PROBLEMS)[0];
+
+		if (!leaf) {
+			const right = workspace.getRightLeaf(false);
+			if (!right) return null;
+			await right.setViewState({
+				type: VIEW_TYPE_COMMENTARY_PROBLEMS,
+				active: true,
+			});
+			leaf = right;
+		}
+
+		workspace.revealLeaf(leaf);
+		return leaf.view instanceof CommentaryProblemsView ? leaf.view : null;
+	}
+
+	async openProblem(problem: CommentaryProblem) {
+		const leaf = this.app.workspace.getLeaf(false);
+		await leaf.openFile(problem.file);
+
+		if (leaf.view instanceof MarkdownView) {
+			const editor = leaf.view.editor;
+			const position = { line: problem.line, ch: 0 };
+			editor.setCursor(position);
+			editor.scrollIntoView({ from: position, to: position }, true);
+			editor.focus();
+		}
+	}
+
+	// Fixes are recomputed from the current file content, so a stale panel
+	// never applies edits at the wrong offsets
+	async applyLintFix(problem: CommentaryProblem): Promise<boolean> {
+		let label = "";
+		const changed = await this.editNote(problem.file, (content) => {
+			const current = this.lintContent(problem.file, content).find(
+				(candidate) =>
+					candidate.line === problem.line &&
+					candidate.diagnostic.code === problem.diagnostic.code &&
+					candidate.diagnostic.message === problem.diagnostic.message
+			);
+			if (!current || !current.diagnostic.fix) return [];
+
+			label = current.diagnostic.fix.label;
+			return toNoteEdits(current.block, current.diagnostic.fix.edits);
+		});
+
+		if (!changed) {
+			new Notice("This problem has changed; run the linter again");
+			return false;
+		}
+		new Notice(label);
+		return true;
+	}
+
+	toggleAllBlocks() {
+		const blocks = document.querySelectorAll(".commentary-block-content");
+		const shouldCollapse = !document.querySelector(
+			".commentary-block-content.collapsed"
+		);
+
+		blocks.forEach((block) => {
+			if (shouldCollapse) {
+				block.classList.add("collapsed");
+			} else {
+				block.classList.remove("collapsed");
+			}
+
+			const btn = block.parentElement?.querySelector(
+				".commentary-collapse-btn"
+			);
+			if (btn) {
+				btn.textContent = shouldCollapse ? "▶" : "▼";
+			}
+		});
+
+		new Notice(`All blocks ${shouldCollapse ? "collapsed" : "expanded"}`);
+	}
+
+	// Ids repeat when a note is open in several panes, so look inside the
+	// block the click came from first
+	scrollToAndHighlight(elementId: string, from?: HTMLElement) {
+		const element = this.findInBlock(elementId, from);
+		if (element) {
+			this.highlightElements([element]);
+		}
+	}
+
+	findInBlock(elementId: string, from?: HTMLElement): HTMLElement | null {
+		const block = from?.closest(".commentary-block-container");
+		return (
+			block?.querySelector<HTMLElement>(`[id="${elementId}"]`) ||
+			document.getElementById(elementId)
+		);
+	}
+
+	// Popover content shared by the editor and reading view
+	renderFootnotePreview(
+		container: HTMLElement,
+		label: string,
+		definition: FootnoteDefinition | undefined,
+		sourcePath: string,
+		component: Component
+	) {
+		const { type, content } = this.parseFootnoteContent(label, definition);
+		const footnoteType =
+			this.getFootnoteType(type) || this.getFallbackFootnoteType();
+
+		this.renderPopoverHeader(container, footnoteType, label);
+		const body = container.createDiv({
+			cls: "commentary-footnote-popover-body",
+		});
+		body.style.color = footnoteType.color;
+		MarkdownRenderer.renderMarkdown(content, body, sourcePath, component);
+	}
+
+	renderPopoverHeader(
+		container: HTMLElement,
+		footnoteType: FootnoteType,
+		label: string
+	) {
+		const header = container.createDiv({
+			cls: "commentary-footnote-popover-header",
+		});
+		this.renderFootnoteTypeIcon(header, footnoteType);
+		header.createSpan({ text: `${footnoteType.label} · ${label}` });
+	}
+
+	// Shows the already rendered footnote next to its reference while the
+	// pointer is over it, so reading position is kept
+	attachFootnotePopover(link: HTMLElement, targetId: string) {
+		let popover: HTMLElement | null = null;
+
+		link.addEventListener("mouseenter", () => {
+			const target = this.findInBlock(targetId, link);
+			const text = target?.querySelector(".footnote-text");
+			if (!target || !text) return;
+
+			const footnoteType =
+				this.getFootnoteType(target.dataset.footnoteType) ||
+				this.getFallbackFootnoteType();
+			popover = document.body.createDiv({
+				cls: "commentary-footnote-popover is-floating",
+			});
+			this.renderPopoverHeader(
+				popover,
+				footnoteType,
+				target.dataset.footnoteLabel || ""
+			);
+			const body = popover.createDiv({
+				cls: "commentary-footnote-popover-body",
+			});
+			body.appendChild(text.cloneNode(true));
+
+			const rect = link.getBoundingClientRect();
+			const left = Math.min(rect.left, window.innerWidth - 340);
+			popover.style.left = `${Math.max(8, left)}px`;
+			popover.style.top = `${rect.bottom + 6}px`;
+		});
+
+		link.addEventListener("mouseleave", () => {
+			popover?.remove();
+			popover = null;
+		});
+	}
+
+	highlightElements(elements: HTMLElement[]) {
+		if (elements.length === 0) return;
+
+		elements[0].scrollIntoView({ behavior: "smooth", block: "center" });
+		elements.forEach((element) => element.classList.add("highlight-flash"));
+		setTimeout(() => {
+			elements.forEach((element) =>
+				element.classList.remove("highlight-flash")
+			);
+		}, this.settings.highlightDuration);
+	}
+
+	insertCommentaryBlock(editor: Editor, file: TFile | null) {
+		// Selected text becomes the block's text rather than being replaced
+		if (editor.somethingSelected() && file) {
+			this.createBlockFromSelection(editor, file);
+			return;
+		}
+
+		// The id goes in the metadata and after the fence, so links to the
+		// block resolve from the start
+		const id = createBlockId();
+		const template = `\`\`\`commentary
+---metadata---
+id: ${id}
+title: Commentary on [Topic]
+tags: analysis, notes
+
+---text---
+[Insert the original text to comment on here / متن اصلی را اینجا وارد کنید]
+
+---commentary---
+Your commentary goes here. Use Ctrl+Shift+F to add footnotes $[1] anywhere in your text.
 
 ---footnote---
 $[1]: This is a footnote definition. You can use different types like note:, warning:, info:, reference:, idea:, or question: before your content.
-\`\`\``;
+\`\`\`
+^${id}`;
 
 		editor.replaceSelection(template);
 	}
 
+	// Builds a block around the selected text, below the selection or at the
+	// end of another note. The selection's last line gets a `^passage-id` so
+	// the block's metadata can link back to it.
+	async createBlockFromSelection(
+		editor: Editor,
+		file: TFile,
+		target: TFile = file
+	) {
+		const text = editor.getSelection().trim();
+		if (!text) {
+			new Notice("Select the text to comment on first");
+			return;
+		}
+		if (/^\s*(`{3,}|~{3,})/m.test(text)) {
+			new Notice(
+				"The selection contains a code fence and can't be quoted"
+			);
+			return;
+		}
+
+		const from = editor.getCursor("from");
+		const to = editor.getCursor("to");
+		// A selection ending at the start of a line ends on the line before
+		const lastLine =
+			to.ch === 0 && to.line > from.line ? to.line - 1 : to.line;
+		const heading = this.getHeadingAt(file, from.line);
+
+		const lineText = editor.getLine(lastLine);
+		const lineEnd = { line: lastLine, ch: lineText.length };
+		const existing = lineText.match(/\s\^([A-Za-z0-9-]+)\s*$/);
+		const passageId = existing ? existing[1] : createBlockId("passage");
+		const passageRef = existing ? "" : ` ^${passageId}`;
+
+		const id = createBlockId();
+		const source = this.app.fileManager.generateMarkdownLink(
+			file,
+			target.path,
+			`#^${passageId}`
+		);
+		const block = [
+			"```commentary",
+			"---metadata---",
+			`id: ${id}`,
+			`title: Commentary on ${heading || file.basename}`,
+			`source: ${source}`,
+			"",
+			"---text---",
+			text.replace(/\s\^[A-Za-z0-9-]+\s*$/, ""),
+			"",
+			"---commentary---",
+			"",
+			"```",
+			`^${id}`,
+		].join("\n");
+
+		if (target === file) {
+			// Below the paragraph holding the selection, cursor in the
+			// commentary. The passage id goes in the same change, so one undo
+			// removes both.
+			editor.replaceRange(`${passageRef}\n\n${block}\n`, lineEnd);
+			const commentaryLine =
+				lastLine + 3 + block.split("\n").indexOf("---commentary---");
+			editor.setCursor({ line: commentaryLine, ch: 0 });
+			return;
+		}
+
+		if (passageRef) editor.replaceRange(passageRef, lineEnd);
+		await this.editNote(target, (content) => {
+			let separator = "\n\n";
+			if (!content || content.endsWith("\n\n")) {
+				separator = "";
+			} else if (content.endsWith("\n")) {
+				separator = "\n";
+			}
+			const end = content.length;
+			return [
+				{
+					range: { start: end, end },
+					text: `${separator}${block}\n`,
+				},
+			];
+		});
+		new Notice(`Commentary block added to ${target.basename}`);
+		await this.app.workspace.getLeaf(true).openFile(target);
+	}
+
+	createBlockFromSelectionInNote(editor: Editor, file: TFile) {
+		if (!editor.somethingSelected()) {
+			new Notice("Select the text to comment on first");
+			return;
+		}
+		new TargetNoteModal(this.app, file, (target) => {
+			this.createBlockFromSelection(editor, file, target);
+		}).open();
+	}
+
+	// Nearest heading at or above a line, used to title new blocks
+	getHeadingAt(file: TFile, line: number): string | undefined {
+		const headings = this.app.metadataCache.getFileCache(file)?.headings;
+		let heading: string | undefined;
+		headings?.forEach((candidate) => {
+			if (candidate.position.start.line <= line) {
+				heading = candidate.heading;
+			}
+		});
+		return heading;
+	}
+
 	insertFootnote(editor: Editor) {
 		const cursor = editor.getCursor();
 
@@ -832,48 +3488,45 @@ $[1]: This is a footnote definition. You can use different types like note:, war
 				// We're in footnote section, navigate to reference
 				this.navigateToFootnoteReference(
 					editor,
-					footnoteNavigation.number
+					footnoteNavigation.label,
+					footnoteNavigation.level
 				);
 			} else {
 				// We're in commentary section on a reference, navigate to definition
 				this.navigateToFootnoteDefinition(
 					editor,
-					footnoteNavigation.number
+					footnoteNavigation.label,
+					footnoteNavigation.level
 				);
 			}
 			return;
 		}
 
-		// Find the next available footnote number within this block
+		// Find the next available footnote number within this block, in the
+		// footnote series of the layer the cursor is in
+		const level = this.getLayerAtLine(blockBounds, cursor.line);
 		const nextNumber = this.getNextFootnoteNumberInBlock(
 			editor,
-			blockBounds
+			blockBounds,
+			level
 		);
 
-		// Insert the reference at cursor position
-		const reference = `$[${nextNumber}]`;
-		editor.replaceSelection(reference);
-
-		// Find the end of the commentary section to add the definition
+		// Insert the reference at cursor position and the definition at the
+		// end of the layer's footnotes
 		const definitionTemplate = `$[${nextNumber}]: ${this.settings.defaultFootnoteType}:`;
-		const cursorPosition = this.addFootnoteDefinitionToBlock(
+		const definitionStart = this.insertFootnoteWithDefinition(
 			editor,
-			definitionTemplate,
-			blockBounds
+			blockBounds,
+			String(nextNumber),
+			level,
+			definitionTemplate
 		);
 
-		// Move cursor to the footnote definition area
-		if (cursorPosition) {
-			// Position cursor after the type and colon, ready for content
-			const typeLength = this.settings.defaultFootnoteType.length;
-			editor.setCursor({
-				line: cursorPosition.line,
-				ch:
-					cursorPosition.ch +
-					`$[${nextNumber}]: ${this.settings.defaultFootnoteType}:`
-						.length,
-			});
-		}
+		// Position cursor after the type and colon, ready for content
+		editor.setCursor({
+			line: definitionStart.line,
+			ch: definitionStart.ch + definitionTemplate.length,
+		});
 
 		new Notice(
 			`Footnote ${nextNumber} inserted. Start typing the definition.`
@@ -901,59 +3554,52 @@ $[1]: This is a footnote definition. You can use different types like note:, war
 				// We're in footnote section, navigate to reference
 				this.navigateToFootnoteReference(
 					editor,
-					footnoteNavigation.number
+					footnoteNavigation.label,
+					footnoteNavigation.level
 				);
 			} else {
 				// We're in commentary section on a reference, navigate to definition
 				this.navigateToFootnoteDefinition(
 					editor,
-					footnoteNavigation.number
+					footnoteNavigation.label,
+					footnoteNavigation.level
 				);
 			}
 			return;
 		}
 
-		// Find the next available footnote number within this block
+		// Find the next available footnote number within this block, in the
+		// footnote series of the layer the cursor is in
+		const level = this.getLayerAtLine(blockBounds, cursor.line);
 		const nextNumber = this.getNextFootnoteNumberInBlock(
 			editor,
-			blockBounds
+			blockBounds,
+			level
 		);
 
-		// Insert the reference at cursor position
-		const reference = `$[${nextNumber}]`;
-		editor.replaceSelection(reference);
-
-		// Add multi-line definition template
+		// Insert the reference at cursor position with a multi-line
+		// definition template
 		const definitionTemplate = `$[${nextNumber}]: ${this.settings.defaultFootnoteType}:Multi-line footnote content here.
 Continue writing on multiple lines as needed.`;
-		const cursorPosition = this.addFootnoteDefinitionToBlock(
+		const definitionStart = this.insertFootnoteWithDefinition(
 			editor,
-			definitionTemplate,
-			blockBounds
+			blockBounds,
+			String(nextNumber),
+			level,
+			definitionTemplate
 		);
 
-		// Move cursor to the footnote definition area, specifically to select the placeholder text
-		if (cursorPosition) {
-			const typeLength = this.settings.defaultFootnoteType.length;
-			const prefixLength =
-				`$[${nextNumber}]: ${this.settings.defaultFootnoteType}:`
-					.length;
-
-			// Select the placeholder text "Multi-line footnote content here."
-			editor.setSelection(
-				{
-					line: cursorPosition.line,
-					ch: cursorPosition.ch + prefixLength,
-				},
-				{
-					line: cursorPosition.line,
-					ch:
-						cursorPosition.ch +
-						prefixLength +
-						"Multi-line footnote content here.".length,
-				}
-			);
-		}
+		// Select the placeholder text "Multi-line footnote content here."
+		const prefixLength =
+			definitionStart.ch +
+			`$[${nextNumber}]: ${this.settings.defaultFootnoteType}:`.length;
+		editor.setSelection(
+			{ line: definitionStart.line, ch: prefixLength },
+			{
+				line: definitionStart.line,
+				ch: prefixLength + "Multi-line footnote content here.".length,
+			}
+		);
 
 		new Notice(
 			`Multi-line footnote ${nextNumber} inserted. Replace the placeholder text.`
@@ -982,13 +3628,15 @@ Continue writing on multiple lines as needed.`;
 				// We're in footnote section, navigate to reference
 				this.navigateToFootnoteReference(
 					editor,
-					footnoteNavigation.number
+					footnoteNavigation.label,
+					footnoteNavigation.level
 				);
 			} else {
 				// We're in commentary section on a reference, navigate to definition
 				this.navigateToFootnoteDefinition(
 					editor,
-					footnoteNavigation.number
+					footnoteNavigation.label,
+					footnoteNavigation.level
 				);
 			}
 			return;
@@ -998,7 +3646,11 @@ Continue writing on multiple lines as needed.`;
 		this.createNewFootnote(editor, cursor);
 	}
 
-	createNewFootnote(editor: Editor, cursor: { line: number; ch: number }) {
+	createNewFootnote(
+		editor: Editor,
+		cursor: { line: number; ch: number },
+		label?: string
+	) {
 		const blockBounds = this.getCurrentCommentaryBlockBounds(
 			editor,
 			cursor.line
@@ -1010,66 +3662,73 @@ Continue writing on multiple lines as needed.`;
 			return;
 		}
 
-		// Find the next available footnote number within this block
-		const nextNumber = this.getNextFootnoteNumberInBlock(
-			editor,
-			blockBounds
-		);
+		// Without a label, take the next available footnote number within
+		// this block, in the footnote series of the layer the cursor is in
+		const level = this.getLayerAtLine(blockBounds, cursor.line);
+		const footnoteLabel =
+			label ??
+			String(
+				this.getNextFootnoteNumberInBlock(editor, blockBounds, level)
+			);
 
-		// Insert the reference at cursor position
-		const reference = `$[${nextNumber}]`;
-		editor.replaceSelection(reference);
+		// A named footnote can be cited more than once
+		if (getDefinition(blockBounds.doc, footnoteLabel, level)) {
+			editor.replaceSelection(`$[${footnoteLabel}]`);
+			new Notice(`Inserted another reference to footnote ${footnoteLabel}.`);
+			return;
+		}
 
-		// Create the definition template
-		const definitionTemplate = `$[${nextNumber}]: ${this.settings.defaultFootnoteType}:`;
-		const cursorPosition = this.addFootnoteDefinitionToBlock(
+		// Insert the reference at cursor position and the definition template
+		const definitionTemplate = `$[${footnoteLabel}]: ${this.settings.defaultFootnoteType}:`;
+		const definitionStart = this.insertFootnoteWithDefinition(
 			editor,
-			definitionTemplate,
-			blockBounds
+			blockBounds,
+			footnoteLabel,
+			level,
+			definitionTemplate
 		);
 
-		// Move cursor to the footnote definition area
-		if (cursorPosition) {
-			// Position cursor after the type and colon, ready for content
-			editor.setCursor({
-				line: cursorPosition.line,
-				ch:
-					cursorPosition.ch +
-					`$[${nextNumber}]: ${this.settings.defaultFootnoteType}:`
-						.length,
-			});
-		}
+		// Position cursor after the type and colon, ready for content
+		editor.setCursor({
+			line: definitionStart.line,
+			ch: definitionStart.ch + definitionTemplate.length,
+		});
 
 		new Notice(
-			`Footnote ${nextNumber} created. Start typing the definition.`
+			`Footnote ${footnoteLabel} created. Start typing the definition.`
 		);
 	}
 
+	insertNamedFootnote(editor: Editor) {
+		const cursor = editor.getCursor();
+		if (!this.getCurrentCommentaryBlockBounds(editor, cursor.line)) {
+			new Notice(
+				"Place cursor inside a commentary block to create footnotes"
+			);
+			return;
+		}
+
+		new FootnoteLabelModal(this.app, (label) => {
+			this.createNewFootnote(editor, cursor, label);
+		}).open();
+	}
+
 	// UPDATED: Only look for footnotes within the current commentary block
 	getNextFootnoteNumberInBlock(
 		editor: Editor,
-		blockBounds: CommentaryBlockBounds
+		blockBounds: CommentaryBlockBounds,
+		level = 1
 	): number {
-		const lines = editor.getValue().split("\n");
-		const footnoteRefs: number[] = [];
-
-		// Only scan within the current block boundaries
-		for (
-			let i = blockBounds.startLine;
-			i < Math.min(blockBounds.endLine, lines.length);
-			i++
-		) {
-			const line = lines[i];
-			const matches = line.match(/\$\[(\d+)\]/g);
-			if (matches) {
-				matches.forEach((match) => {
-					const numMatch = match.match(/\$\[(\d+)\]/);
-					if (numMatch) {
-						footnoteRefs.push(parseInt(numMatch[1]));
-					}
-				});
-			}
-		}
+		// Each commentary layer numbers its footnotes independently. Named
+		// labels don't take part in the numbering.
+		const { doc } = blockBounds;
+		const footnoteRefs: number[] = [...doc.references, ...doc.definitions]
+			.filter(
+				(item) =>
+					this.getFootnoteLevel(doc, item) === level &&
+					isNumericLabel(item.label)
+			)
+			.map((item) => parseInt(item.label));
 
 		return footnoteRefs.length > 0 ? Math.max(...footnoteRefs) + 1 : 1;
 	}
@@ -1077,73 +3736,72 @@ Continue writing on multiple lines as needed.`;
 	checkFootnoteNavigation(
 		editor: Editor,
 		cursor: { line: number; ch: number }
-	): { number: number; inFootnoteSection: boolean } | null {
-		const currentLine = editor.getLine(cursor.line);
+	): { label: string; inFootnoteSection: boolean; level: number } | null {
+		const blockBounds = this.getCurrentCommentaryBlockBounds(
+			editor,
+			cursor.line
+		);
+		if (!blockBounds) return null;
 
-		// Check if current line is a footnote definition: $[1]: content
-		const footnoteDefMatch = currentLine.match(/^\$\[(\d+)\]:/);
-		if (footnoteDefMatch) {
-			const footnoteNumber = parseInt(footnoteDefMatch[1]);
-			const inFootnoteSection = this.isInFootnoteSection(
-				editor,
-				cursor.line
-			);
+		const { doc } = blockBounds;
+		const line = cursor.line - blockBounds.startLine - 1;
+		const inFootnoteSection = this.isInFootnoteSection(
+			blockBounds,
+			cursor.line
+		);
+		const level = this.getLayerAtLine(blockBounds, cursor.line);
 
-			return {
-				number: footnoteNumber,
-				inFootnoteSection: inFootnoteSection,
-			};
+		// Check if current line is a footnote definition: $[1]: content
+		const definition = doc.definitions.find((def) => def.line === line);
+		if (definition) {
+			return { label: definition.label, inFootnoteSection, level };
 		}
 
 		// Check if cursor is on a footnote reference: $[1]
-		const footnoteRefPattern = /\$\[(\d+)\]/g;
-		let match;
-
-		while ((match = footnoteRefPattern.exec(currentLine)) !== null) {
-			const startPos = match.index;
-			const endPos = match.index + match[0].length;
-
-			// Check if cursor is within this footnote reference
-			if (cursor.ch >= startPos && cursor.ch <= endPos) {
-				const footnoteNumber = parseInt(match[1]);
-				const inFootnoteSection = this.isInFootnoteSection(
-					editor,
-					cursor.line
-				);
-
-				return {
-					number: footnoteNumber,
-					inFootnoteSection: inFootnoteSection,
-				};
-			}
+		const ch =
+			cursor.ch - this.getLinePrefix(blockBounds, cursor.line).length;
+		const reference = doc.references.find(
+			(ref) =>
+				ref.line === line &&
+				ch >= ref.ch &&
+				ch <= ref.ch + ref.range.end - ref.range.start
+		);
+		if (reference) {
+			return { label: reference.label, inFootnoteSection, level };
 		}
 
 		return null;
 	}
 
-	isInFootnoteSection(editor: Editor, line: number): boolean {
-		// Look backwards from current line to find section markers
-		for (let i = line; i >= 0; i--) {
-			const checkLine = editor.getLine(i);
-
-			if (checkLine.startsWith("---footnote---")) {
-				return true;
-			}
+	isInFootnoteSection(
+		blockBounds: CommentaryBlockBounds,
+		line: number
+	): boolean {
+		const section = getSectionAtLine(
+			blockBounds.doc,
+			line - blockBounds.startLine - 1
+		);
+		return section?.kind === "footnote";
+	}
 
-			if (
-				checkLine.startsWith("---commentary---") ||
-				checkLine.startsWith("---text---") ||
-				checkLine.startsWith("---metadata---")
-			) {
-				return false;
-			}
+	// Commentary layer whose footnote series applies at this editor line
+	getLayerAtLine(blockBounds: CommentaryBlockBounds, line: number): number {
+		const section = getSectionAtLine(
+			blockBounds.doc,
+			line - blockBounds.startLine - 1
+		);
+		return Math.max(1, section?.level ?? 1);
+	}
 
-			if (checkLine.startsWith("```")) {
-				return false;
-			}
-		}
+	// Callout or blockquote markers in front of a block line, which the
+	// parsed document's columns don't include
+	getLinePrefix(blockBounds: CommentaryBlockBounds, line: number): string {
+		const { block } = blockBounds;
+		return block.prefixes[line - block.startLine - 1] ?? block.prefix;
+	}
 
-		return false;
+	getFootnoteLevel(doc: CommentaryDocument, item: { section: number }) {
+		return Math.max(1, getLevel(doc, item));
 	}
 
 	navigateFootnote(editor: Editor) {
@@ -1160,49 +3818,38 @@ Continue writing on multiple lines as needed.`;
 			return;
 		}
 
-		// Check if we're in a footnote definition
+		// Check if we're on a footnote reference or definition
 		const footnoteNavigation = this.checkFootnoteNavigation(editor, cursor);
 		if (footnoteNavigation) {
 			if (footnoteNavigation.inFootnoteSection) {
 				// We're in footnote section, navigate to reference
 				this.navigateToFootnoteReference(
 					editor,
-					footnoteNavigation.number
+					footnoteNavigation.label,
+					footnoteNavigation.level
 				);
 			} else {
 				// We're in commentary section, navigate to definition
 				this.navigateToFootnoteDefinition(
 					editor,
-					footnoteNavigation.number
+					footnoteNavigation.label,
+					footnoteNavigation.level
 				);
 			}
 			return;
 		}
 
-		// Check if cursor is on a footnote reference in commentary
-		const currentLine = editor.getLine(cursor.line);
-		const footnoteRefPattern = /\$\[(\d+)\]/g;
-		let match;
-
-		while ((match = footnoteRefPattern.exec(currentLine)) !== null) {
-			const startPos = match.index;
-			const endPos = match.index + match[0].length;
-
-			// Check if cursor is within this footnote reference
-			if (cursor.ch >= startPos && cursor.ch <= endPos) {
-				const footnoteNumber = parseInt(match[1]);
-				this.navigateToFootnoteDefinition(editor, footnoteNumber);
-				return;
-			}
-		}
-
 		new Notice(
 			"Place cursor on a footnote reference or definition to navigate"
 		);
 	}
 
 	// UPDATED: Only search within the current commentary block
-	navigateToFootnoteDefinition(editor: Editor, footnoteNumber: number) {
+	navigateToFootnoteDefinition(
+		editor: Editor,
+		label: string,
+		level = 1
+	) {
 		const cursor = editor.getCursor();
 		const blockBounds = this.getCurrentCommentaryBlockBounds(
 			editor,
@@ -1213,52 +3860,45 @@ Continue writing on multiple lines as needed.`;
 			return;
 		}
 
-		const lines = editor.getValue().split("\n");
+		const { doc } = blockBounds;
+		const definition = doc.definitions.find(
+			(def) =>
+				def.label === label &&
+				this.getFootnoteLevel(doc, def) === level
+		);
 
-		// Only search within the current block's footnote section
-		if (
-			blockBounds.footnoteStart !== undefined &&
-			blockBounds.footnoteEnd !== undefined
-		) {
-			for (
-				let i = blockBounds.footnoteStart + 1;
-				i < blockBounds.footnoteEnd;
-				i++
-			) {
-				const line = lines[i];
-				const definitionPattern = new RegExp(
-					`^\\$\\[${footnoteNumber}\\]:`
-				);
-				const match = definitionPattern.exec(line);
-
-				if (match) {
-					// Found the definition, move cursor to it
-					const position = {
-						line: i,
-						ch: match[0].length, // Position after the colon
-					};
-
-					editor.setCursor(position);
-					editor.scrollIntoView({
-						from: position,
-						to: position,
-					});
+		if (definition) {
+			// Found the definition, move cursor to it
+			const line = blockBounds.startLine + 1 + definition.line;
+			const position = {
+				line,
+				// Position after the colon
+				ch:
+					this.getLinePrefix(blockBounds, line).length +
+					`$[${label}]:`.length,
+			};
 
-					new Notice(
-						`Jumped to footnote ${footnoteNumber} definition.`
-					);
-					return;
-				}
-			}
+			editor.setCursor(position);
+			editor.scrollIntoView({
+				from: position,
+				to: position,
+			});
+
+			new Notice(`Jumped to footnote ${label} definition.`);
+			return;
 		}
 
 		new Notice(
-			`Footnote ${footnoteNumber} definition not found in this block.`
+			`Footnote ${label} definition not found in this block.`
 		);
 	}
 
 	// UPDATED: Only search within the current commentary block
-	navigateToFootnoteReference(editor: Editor, footnoteNumber: number) {
+	navigateToFootnoteReference(
+		editor: Editor,
+		label: string,
+		level = 1
+	) {
 		const cursor = editor.getCursor();
 		const blockBounds = this.getCurrentCommentaryBlockBounds(
 			editor,
@@ -1269,44 +3909,36 @@ Continue writing on multiple lines as needed.`;
 			return;
 		}
 
-		const lines = editor.getValue().split("\n");
+		const { doc } = blockBounds;
+		const reference = doc.references.find(
+			(ref) =>
+				ref.label === label &&
+				doc.sections[ref.section].kind === "commentary" &&
+				getLevel(doc, ref) === level
+		);
 
-		// Only search within the current block's commentary section
-		if (
-			blockBounds.commentaryStart !== undefined &&
-			blockBounds.commentaryEnd !== undefined
-		) {
-			for (
-				let i = blockBounds.commentaryStart + 1;
-				i < blockBounds.commentaryEnd;
-				i++
-			) {
-				const line = lines[i];
-				const referencePattern = new RegExp(
-					`\\$\\[${footnoteNumber}\\]`
-				);
-				const match = referencePattern.exec(line);
-
-				if (match) {
-					const position = { line: i, ch: match.index };
-					editor.setCursor(position);
-					editor.scrollIntoView({
-						from: position,
-						to: {
-							line: position.line,
-							ch: position.ch + match[0].length,
-						},
-					});
-					new Notice(
-						`Jumped to footnote ${footnoteNumber} reference in commentary.`
-					);
-					return;
-				}
-			}
+		if (reference) {
+			const line = blockBounds.startLine + 1 + reference.line;
+			const position = {
+				line,
+				ch: this.getLinePrefix(blockBounds, line).length + reference.ch,
+			};
+			editor.setCursor(position);
+			editor.scrollIntoView({
+				from: position,
+				to: {
+					line: position.line,
+					ch: position.ch + reference.range.end - reference.range.start,
+				},
+			});
+			new Notice(
+				`Jumped to footnote ${label} reference in commentary.`
+			);
+			return;
 		}
 
 		new Notice(
-			`Footnote ${footnoteNumber} reference not found in this block's commentary section.`
+			`Footnote ${label} reference not found in this block's commentary section.`
 		);
 	}
 
@@ -1332,130 +3964,87 @@ Continue writing on multiple lines as needed.`;
 		return footnoteNums.length > 0 ? Math.max(...footnoteNums) + 1 : 1;
 	}
 
-	// UPDATED: Add footnote definition to the specific block only
-	addFootnoteDefinitionToBlock(
-		editor: Editor,
-		definition: string,
-		blockBounds: CommentaryBlockBounds
-	): { line: number; ch: number } | null {
-		const lines = editor.getValue().split("\n");
-		let insertLine = -1;
-
-		if (blockBounds.footnoteStart !== undefined) {
-			// Add to existing footnote section
-			insertLine = blockBounds.footnoteEnd || blockBounds.endLine;
-		} else {
-			// Create footnote section before the end of the block
-			insertLine = blockBounds.endLine;
-
-			// Insert the footnote section header and definition
-			const newLines = [
-				...lines.slice(0, insertLine),
-				"",
-				"---footnote---",
-				definition,
-				...lines.slice(insertLine),
-			];
-
-			editor.setValue(newLines.join("\n"));
-
-			// Return position for the inserted definition
-			return { line: insertLine + 2, ch: 0 }; // +2 for empty line and section header
-		}
-
-		// Insert just the definition in existing footnote section
-		const newLines = [
-			...lines.slice(0, insertLine),
-			definition,
-			...lines.slice(insertLine),
-		];
-
-		editor.setValue(newLines.join("\n"));
-
-		// Return position for the inserted definition
-		return { line: insertLine, ch: 0 };
-	}
-
-	// DEPRECATED: Use addFootnoteDefinitionToBlock instead
-	addFootnoteDefinition(
+	// Inserts a reference in place of the selection and its definition in
+	// the block as one transaction, so a single undo removes both. Returns
+	// where the definition starts.
+	insertFootnoteWithDefinition(
 		editor: Editor,
+		blockBounds: CommentaryBlockBounds,
+		label: string,
+		level: number,
 		definition: string
-	): { line: number; ch: number } | null {
-		const cursor = editor.getCursor();
-		const blockBounds = this.getCurrentCommentaryBlockBounds(
+	): EditorPosition {
+		const from = editor.getCursor("from");
+		const to = editor.getCursor("to");
+		const { change, line } = this.getFootnoteDefinitionChange(
 			editor,
-			cursor.line
+			definition,
+			blockBounds,
+			level
 		);
-		if (blockBounds) {
-			return this.addFootnoteDefinitionToBlock(
-				editor,
-				definition,
-				blockBounds
-			);
-		}
-
-		// Fallback to old behavior
-		const content = editor.getValue();
-		const lines = content.split("\n");
-
-		// Find the footnote section or the end of the commentary block
-		let footnoteStart = -1;
-		let blockEnd = -1;
-		let inCommentaryBlock = false;
-		let insertLine = -1;
 
-		for (let i = 0; i < lines.length; i++) {
-			const line = lines[i];
-
-			if (line.startsWith("```commentary")) {
-				inCommentaryBlock = true;
-				continue;
-			}
+		editor.transaction({
+			changes: [{ from, to, text: `$[${label}]` }, change],
+		});
 
-			if (inCommentaryBlock && line.startsWith("```")) {
-				blockEnd = i;
-				break;
-			}
+		// Replacing a multi-line selection pulls later lines up
+		return {
+			line: line > to.line ? line - (to.line - from.line) : line,
+			ch: blockBounds.block.prefix.length,
+		};
+	}
 
-			if (inCommentaryBlock && line.startsWith("---footnote---")) {
-				footnoteStart = i;
-				continue;
+	// A definition goes after the last footnote section of its layer, or in
+	// a new footnote section at the end of the block. Returns the insertion
+	// and the line the definition will be on.
+	getFootnoteDefinitionChange(
+		editor: Editor,
+		definition: string,
+		blockBounds: CommentaryBlockBounds,
+		level = 1
+	): { change: EditorChange; line: number } {
+		// Super-commentary layers keep their own footnote sections
+		let footnoteEnd: number | undefined;
+		if (level > 1) {
+			const layerFootnotes =
+				getLayer(blockBounds.doc, level)?.footnote ?? [];
+			if (layerFootnotes.length > 0) {
+				const last =
+					blockBounds.doc.sections[
+						layerFootnotes[layerFootnotes.length - 1]
+					];
+				footnoteEnd = blockBounds.startLine + 1 + last.endLine;
 			}
+		} else if (blockBounds.footnoteStart !== undefined) {
+			footnoteEnd = blockBounds.footnoteEnd || blockBounds.endLine;
 		}
 
-		let newContent;
-
-		if (footnoteStart > 0) {
-			// Add to existing footnote section
-			insertLine = blockEnd > 0 ? blockEnd : lines.length;
-			newContent = [
-				...lines.slice(0, insertLine),
-				definition,
-				...lines.slice(insertLine),
-			].join("\n");
-		} else if (blockEnd > 0) {
-			// Create footnote section
-			insertLine = blockEnd;
-			newContent = [
-				...lines.slice(0, blockEnd),
-				"",
-				"---footnote---",
-				definition,
-				...lines.slice(blockEnd),
-			].join("\n");
-			// Adjust insert line for the new section header
-			insertLine += 2; // Account for empty line and ---footnote--- line
-		} else {
-			// Fallback: add at the end
-			insertLine = lines.length;
-			newContent = content + "\n\n---footnote---\n" + definition;
-			insertLine += 2; // Account for empty line and ---footnote--- line
+		const { prefix } = blockBounds.block;
+		const lines = (
+			footnoteEnd !== undefined
+				? [definition]
+				: ["", sectionMarker("footnote", level), definition]
+		).map((text) => prefix + text.replace(/\n/g, `\n${prefix}`));
+		const insertLine = footnoteEnd ?? blockBounds.endLine;
+		const line = insertLine + lines.length - 1;
+
+		// An unclosed block runs to the end of the note
+		if (insertLine > editor.lastLine()) {
+			const end = {
+				line: editor.lastLine(),
+				ch: editor.getLine(editor.lastLine()).length,
+			};
+			return {
+				change: { from: end, to: end, text: `\n${lines.join("\n")}` },
+				line,
+			};
 		}
 
-		editor.setValue(newContent);
-
-		// Return the cursor position for the inserted definition
-		return { line: insertLine, ch: 0 };
+		const at = { line: insertLine, ch: 0 };
+		return {
+			change: { from: at, to: at, text: `${lines.join("\n")}\n` },
+			line,
+		};
 	}
 
 	isInCommentaryBlock(editor: Editor, line: number): boolean {
@@ -1567,26 +4156,63 @@ Continue writing on multiple lines as needed.`;
                 padding: 0 15px;
             }
             
-            .commentary-original-text {
-                background: var(--background-secondary-alt);
-                border-radius: 6px;
-                padding: 12px;
-                margin-bottom: 15px;
-                border-left: 3px solid var(--quote-border);
+            .commentary-original-text {
+                background: var(--background-secondary-alt);
+                border-radius: 6px;
+                padding: 12px;
+                margin-bottom: 15px;
+                border-left: 3px solid var(--quote-border);
+            }
+            
+            .commentary-original-text h4 {
+                margin-top: 0;
+                margin-bottom: 10px;
+                color: var(--text-muted);
+                font-size: 0.9em;
+                text-transform: uppercase;
+                letter-spacing: 0.05em;
+            }
+            
+            .original-text-content {
+                color: var(--text-normal);
+                font-style: italic;
+            }
+            
+            .commentary-segment + .commentary-segment {
+                margin-top: 20px;
+                padding-top: 15px;
+                border-top: 1px dashed var(--background-modifier-border);
+            }
+            
+            .commentary-layer {
+                margin-top: 20px;
+                border: 1px solid var(--background-modifier-border);
+                border-left: 3px solid var(--interactive-accent);
+                border-radius: 6px;
+            }
+            
+            .commentary-layer .commentary-layer {
+                margin-left: 15px;
             }
             
-            .commentary-original-text h4 {
-                margin-top: 0;
-                margin-bottom: 10px;
+            .commentary-layer-header {
+                display: flex;
+                align-items: center;
+                padding: 6px 12px;
+                background: var(--background-secondary);
                 color: var(--text-muted);
                 font-size: 0.9em;
-                text-transform: uppercase;
-                letter-spacing: 0.05em;
+                cursor: pointer;
+                user-select: none;
             }
             
-            .original-text-content {
-                color: var(--text-normal);
-                font-style: italic;
+            .commentary-layer-content {
+                padding: 12px;
+                font-size: 0.95em;
+            }
+            
+            .commentary-layer-content.collapsed {
+                display: none;
             }
             
             .commentary-section h4 {
@@ -1684,6 +4310,45 @@ Continue writing on multiple lines as needed.`;
                 display: inline;
                 color: var(--text-normal);
             }
+
+            .footnotes-list li.footnote-style-callout {
+                border: 1px solid var(--background-modifier-border);
+                border-left-width: 3px;
+                border-radius: 4px;
+                padding: 6px 10px;
+                background: var(--background-secondary);
+            }
+
+            .footnote-callout-title {
+                font-weight: 600;
+                margin-bottom: 4px;
+            }
+
+            .footnote-sidenote {
+                float: right;
+                clear: right;
+                width: 35%;
+                margin: 0 0 8px 12px;
+                padding-left: 8px;
+                border-left: 2px solid var(--background-modifier-border);
+                font-size: 0.85em;
+                color: var(--text-muted);
+            }
+
+            .footnote-sidenote-num {
+                font-weight: 600;
+                margin-right: 4px;
+            }
+
+            .footnote-type-icon svg {
+                width: 1em;
+                height: 1em;
+                vertical-align: -0.125em;
+            }
+
+            .commentary-footnote-type-setting input.is-invalid {
+                border-color: var(--text-error);
+            }
             
             .footnote-text p {
                 display: inline;
@@ -1707,27 +4372,407 @@ Continue writing on multiple lines as needed.`;
                 padding-left: 1em;
                 border-left: 3px solid var(--quote-border);
             }
-            
-            .footnote-text pre {
-                margin: 0.5em 0;
-                padding: 0.5em;
-                background: var(--code-background);
+            
+            .footnote-text pre {
+                margin: 0.5em 0;
+                padding: 0.5em;
+                background: var(--code-background);
+                border-radius: 4px;
+            }
+            
+            .footnote-backref {
+                color: var(--link-color);
+                text-decoration: none;
+                margin-right: 5px;
+                font-size: 0.9em;
+                transition: all 0.2s;
+            }
+            
+            .footnote-backref:hover {
+                color: var(--link-color-hover);
+                transform: translateX(-2px);
+            }
+            
+            .text-anchor-marker {
+                color: var(--text-faint);
+                font-size: 0.75em;
+                font-style: normal;
+                margin: 0 2px;
+            }
+            
+            .text-anchor {
+                border-radius: 3px;
+                transition: background 0.2s;
+            }
+            
+            .text-anchor:not(.text-anchor-uncommented) {
+                cursor: pointer;
+            }
+            
+            .text-anchor-uncommented {
+                text-decoration: underline dotted var(--text-faint);
+            }
+            
+            .anchor-ref {
+                display: inline-block;
+                padding: 0 4px;
+                margin: 0 2px;
+                border-radius: 4px;
+                font-size: 0.8em;
+                color: var(--text-accent);
+                background: var(--background-modifier-hover);
+            }
+            
+            .anchored-paragraph {
+                cursor: pointer;
+                border-radius: 4px;
+                transition: background 0.2s;
+            }
+            
+            .text-anchor.anchor-hover,
+            .anchored-paragraph.anchor-hover {
+                background: var(--text-selection);
+            }
+            
+            .commentary-apparatus {
+                margin-top: 10px;
+                padding-top: 8px;
+                border-top: 1px solid var(--background-modifier-border);
+                font-size: 0.85em;
+                font-style: normal;
+            }
+            
+            .apparatus-list {
+                margin: 0;
+                padding-left: 20px;
+            }
+            
+            .apparatus-list li {
+                margin-bottom: 4px;
+                color: var(--text-muted);
+            }
+            
+            .apparatus-lemma-text {
+                color: var(--text-normal);
+            }
+            
+            .apparatus-siglum {
+                font-weight: 600;
+                color: var(--text-accent);
+            }
+            
+            .apparatus-missing {
+                color: var(--text-error);
+            }
+            
+            .apparatus-ref a {
+                color: var(--text-faint);
+                text-decoration: none;
+                font-style: normal;
+            }
+            
+            .apparatus-lemma {
+                border-bottom: 1px dotted var(--text-faint);
+                transition: background 0.2s;
+            }
+            
+            .apparatus-lemma.anchor-hover,
+            .apparatus-list li.anchor-hover {
+                background: var(--text-selection);
+            }
+
+            .commentary-suggestion .footnote-type-icon {
+                margin-right: 6px;
+            }
+
+            .commentary-suggestion-note {
+                color: var(--text-muted);
+                font-size: var(--font-ui-smaller);
+            }
+
+            .commentary-footnote-popover {
+                max-width: 320px;
+                padding: 8px 10px;
+                font-size: 0.9em;
+                line-height: 1.5;
+            }
+
+            .commentary-footnote-popover.is-floating {
+                position: fixed;
+                z-index: var(--layer-popover);
+                background: var(--background-primary);
+                border: 1px solid var(--background-modifier-border);
+                border-radius: 6px;
+                box-shadow: var(--shadow-s);
+                pointer-events: none;
+            }
+
+            .commentary-footnote-popover-header {
+                font-size: 0.85em;
+                color: var(--text-muted);
+                margin-bottom: 4px;
+            }
+
+            .commentary-footnote-popover-body p {
+                margin: 0 0 4px;
+            }
+
+            .cm-commentary-marker {
+                font-weight: 600;
+                color: var(--text-accent);
+            }
+
+            .cm-commentary-badge {
+                margin-left: 8px;
+                padding: 0 6px;
+                border-radius: 8px;
+                font-size: 0.75em;
+                font-family: var(--font-interface);
+                background: var(--background-modifier-hover);
+                color: var(--text-muted);
+            }
+
+            .cm-commentary-badge-text {
+                color: var(--text-normal);
+            }
+
+            .cm-commentary-badge-commentary {
+                color: var(--text-accent);
+            }
+
+            .cm-commentary-section {
+                border-left: 2px solid transparent;
+            }
+
+            .cm-commentary-section-text {
+                border-left-color: var(--background-modifier-border);
+            }
+
+            .cm-commentary-section-commentary {
+                border-left-color: var(--interactive-accent);
+            }
+
+            .cm-commentary-section-commentary[data-layer="2"],
+            .cm-commentary-section-commentary[data-layer="3"] {
+                border-left-style: dashed;
+            }
+
+            .cm-commentary-section-footnote,
+            .cm-commentary-section-apparatus {
+                border-left-color: var(--text-faint);
+            }
+
+            .cm-commentary-reference {
+                color: var(--interactive-accent);
+                font-weight: 600;
+            }
+
+            .cm-commentary-definition,
+            .cm-commentary-entry {
+                color: var(--interactive-accent);
+                font-weight: 700;
+            }
+
+            .cm-commentary-type {
+                color: var(--text-muted);
+                font-style: italic;
+            }
+
+            .cm-commentary-anchor,
+            .cm-commentary-passage {
+                color: var(--text-accent);
+            }
+
+            .cm-commentary-lemma {
+                color: var(--text-warning);
+            }
+
+            .cm-commentary-key {
+                color: var(--text-muted);
+            }
+
+            .commentary-problems-header {
+                display: flex;
+                justify-content: space-between;
+                align-items: center;
+                margin-bottom: 10px;
+                color: var(--text-muted);
+            }
+
+            .commentary-problems-file {
+                font-weight: 600;
+                margin-top: 10px;
+            }
+
+            .commentary-problems-list {
+                list-style: none;
+                padding-left: 0;
+                margin: 4px 0;
+            }
+
+            .commentary-problem {
+                display: flex;
+                flex-wrap: wrap;
+                align-items: baseline;
+                gap: 6px;
+                padding: 4px 6px;
+                border-radius: 4px;
+                cursor: pointer;
+            }
+
+            .commentary-problem:hover {
+                background: var(--background-modifier-hover);
+            }
+
+            .commentary-problem-message {
+                flex: 1;
+            }
+
+            .commentary-problem-line {
+                color: var(--text-faint);
+                font-size: 0.85em;
+            }
+
+            .commentary-problem-fix {
+                font-size: 0.8em;
+                padding: 2px 6px;
+            }
+
+            .commentary-explorer-header {
+                display: flex;
+                flex-wrap: wrap;
+                gap: 6px;
+                margin-bottom: 10px;
+            }
+
+            .commentary-explorer-file {
+                font-weight: 600;
+                margin-top: 10px;
+            }
+
+            .commentary-explorer-list {
+                list-style: none;
+                padding-left: 0;
+                margin: 4px 0;
+            }
+
+            .commentary-explorer-item {
+                padding: 6px;
+                border-radius: 4px;
+                cursor: pointer;
+            }
+
+            .commentary-explorer-item:hover {
+                background: var(--background-modifier-hover);
+            }
+
+            .commentary-explorer-title {
+                font-weight: 500;
+            }
+
+            .commentary-explorer-details {
+                display: flex;
+                gap: 10px;
+                color: var(--text-muted);
+                font-size: 0.85em;
+            }
+
+            .commentary-explorer-status {
+                margin-left: auto;
+            }
+
+            .commentary-explorer-empty {
+                color: var(--text-faint);
+            }
+
+            .commentary-tags-list {
+                list-style: none;
+                padding-left: 0;
+            }
+
+            .commentary-tags-item {
+                display: flex;
+                justify-content: space-between;
+                padding: 4px 6px;
+                border-radius: 4px;
+                cursor: pointer;
+            }
+
+            .commentary-tags-item:hover {
+                background: var(--background-modifier-hover);
+            }
+
+            .commentary-tags-count {
+                color: var(--text-muted);
+            }
+
+            .commentary-backlinks-block {
+                margin-bottom: 10px;
+            }
+
+            .commentary-backlinks-kind {
+                margin-right: 6px;
+                padding: 0 4px;
+                border-radius: 4px;
+                background: var(--background-modifier-border);
+                color: var(--text-muted);
+                font-size: 0.8em;
+            }
+
+            .commentary-source-link {
+                color: var(--text-muted);
+                font-size: 0.85em;
+                margin-bottom: 4px;
+            }
+
+            .commentary-source-warning,
+            .commentary-source-note {
+                display: flex;
+                align-items: center;
+                justify-content: space-between;
+                gap: 8px;
+                margin-top: 6px;
+                padding: 4px 8px;
                 border-radius: 4px;
+                font-size: 0.85em;
             }
-            
-            .footnote-backref {
-                color: var(--link-color);
+
+            .commentary-source-warning {
+                background: rgba(var(--color-orange-rgb), 0.15);
+                color: var(--text-warning);
+            }
+
+            .commentary-source-note {
+                background: var(--background-secondary);
+                color: var(--text-muted);
+            }
+
+            .commentary-source-marker {
+                margin-left: 6px;
                 text-decoration: none;
-                margin-right: 5px;
+                font-size: 0.85em;
+                opacity: 0.7;
+            }
+
+            .commentary-source-marker:hover {
+                opacity: 1;
+            }
+
+            .commentary-query-table {
+                width: 100%;
+            }
+
+            .commentary-query-path,
+            .commentary-query-count,
+            .commentary-query-empty {
+                color: var(--text-muted);
                 font-size: 0.9em;
-                transition: all 0.2s;
             }
-            
-            .footnote-backref:hover {
-                color: var(--link-color-hover);
-                transform: translateX(-2px);
+
+            .commentary-query-errors {
+                color: var(--text-error);
             }
-            
+
             .highlight-flash {
                 animation: highlightFlash 2s ease-out;
             }
@@ -1819,20 +4864,1181 @@ Continue writing on multiple lines as needed.`;
 	}
 
 	onunload() {
-		// Cleanup
-		this.blockRegistry.clear();
+		// Cleanup
+		this.blockRegistry.clear();
+		Array.from(this.linkContributions.keys()).forEach((path) => {
+			this.commentaryIndex.remove(path);
+			this.contributeLinks(path, false);
+		});
+		this.commentaryIndex.clear();
+		if (this.indexTimer !== null) window.clearTimeout(this.indexTimer);
+		if (this.linkTimer !== null) window.clearTimeout(this.linkTimer);
+		this.app.workspace.detachLeavesOfType(VIEW_TYPE_COMMENTARY_PROBLEMS);
+		this.app.workspace.detachLeavesOfType(VIEW_TYPE_COMMENTARY_EXPLORER);
+		this.app.workspace.detachLeavesOfType(VIEW_TYPE_COMMENTARY_TAGS);
+		this.app.workspace.detachLeavesOfType(VIEW_TYPE_COMMENTARY_BACKLINKS);
+		document
+			.querySelectorAll(".commentary-footnote-popover.is-floating")
+			.forEach((popover) => popover.remove());
+	}
+
+	async loadSettings() {
+		this.settings = Object.assign(
+			{},
+			DEFAULT_SETTINGS,
+			await this.loadData()
+		);
+		// Copy the types so editing them never touches the defaults
+		this.settings.footnoteTypes = this.settings.footnoteTypes.map(
+			(type) => ({ ...type })
+		);
+	}
+
+	updateEditorExtensions() {
+		this.editorExtensions.length = 0;
+		// Commands look blocks up in the index, and footnotes preview on
+		// hover, whether or not highlighting is on
+		this.editorExtensions.push(
+			commentaryBlockIndex(),
+			commentaryFootnotePreview((container, label, definition, state) => {
+				// Lives as long as the tooltip
+				const component = new Component();
+				component.load();
+				this.renderFootnotePreview(
+					container,
+					label,
+					definition,
+					state.field(editorInfoField, false)?.file?.path || "",
+					component
+				);
+				return () => component.unload();
+			})
+		);
+		if (this.settings.enableEditorHighlighting) {
+			this.editorExtensions.push(commentaryEditorExtension());
+		}
+		this.app.workspace.updateOptions();
+	}
+
+	getFootnoteType(keyword?: string): FootnoteType | undefined {
+		return this.settings.footnoteTypes.find(
+			(type) => type.keyword === keyword
+		);
+	}
+
+	getFootnoteKeywords(): string[] {
+		return this.settings.footnoteTypes.map((type) => type.keyword);
+	}
+
+	// Type used for untyped definitions and unknown keywords
+	getFallbackFootnoteType(): FootnoteType {
+		return (
+			this.getFootnoteType("note") ||
+			this.settings.footnoteTypes[0] ||
+			DEFAULT_FOOTNOTE_TYPES[0]
+		);
+	}
+
+	renderFootnoteTypeIcon(parent: HTMLElement, type: FootnoteType) {
+		if (!type.icon) return;
+		const icon = parent.createEl("span", { cls: "footnote-type-icon" });
+		if (/^[a-z][a-z0-9-]*$/.test(type.icon)) {
+			setIcon(icon, type.icon);
+		} else {
+			icon.setText(type.icon + " ");
+		}
+		icon.setAttribute("aria-label", type.label);
+	}
+
+	async saveSettings() {
+		await this.saveData(this.settings);
+
+		// Indexed footnotes are grouped by type, so regroup when types change
+		if (this.getFootnoteTypeKeywords() !== this.indexedTypes) {
+			if (this.indexTimer !== null) window.clearTimeout(this.indexTimer);
+			this.indexTimer = window.setTimeout(() => {
+				this.indexTimer = null;
+				this.buildIndex();
+			}, 1000);
+		}
+	}
+}
+
+type CommentarySuggestion =
+	| { kind: "footnote"; label: string; preview: string }
+	| { kind: "new-footnote"; label?: string }
+	| { kind: "type"; type: FootnoteType }
+	| { kind: "marker"; marker: string; description: string };
+
+const MARKER_DESCRIPTIONS: Record<SectionKind, string> = {
+	metadata: "Title, tags, id and sigla",
+	text: "Original text (matn)",
+	commentary: "Commentary on the text",
+	footnote: "Footnote definitions",
+	apparatus: "Critical apparatus",
+};
+
+// Completes `$[` with the block's footnotes, `$[n]: ` with footnote types
+// and a line starting with `-` with the section markers the block lacks
+class CommentarySuggest extends EditorSuggest<CommentarySuggestion> {
+	plugin: CommentaryPlugin;
+	mode: "footnote" | "type" | "marker" = "footnote";
+	blockBounds: CommentaryBlockBounds | null = null;
+
+	constructor(app: App, plugin: CommentaryPlugin) {
+		super(app);
+		this.plugin = plugin;
+	}
+
+	onTrigger(
+		cursor: EditorPosition,
+		editor: Editor
+	): EditorSuggestTriggerInfo | null {
+		const bounds = this.plugin.getCurrentCommentaryBlockBounds(
+			editor,
+			cursor.line
+		);
+		if (
+			!bounds ||
+			cursor.line <= bounds.startLine ||
+			cursor.line >= bounds.endLine
+		) {
+			return null;
+		}
+		this.blockBounds = bounds;
+
+		// Match against the line without any callout markers
+		const margin = this.plugin.getLinePrefix(bounds, cursor.line).length;
+		const line = editor.getLine(cursor.line);
+		const prefix = line.slice(margin, cursor.ch);
+		const inFootnotes = this.plugin.isInFootnoteSection(bounds, cursor.line);
+
+		const typeMatch = prefix.match(/^\$\[[\p{L}\p{N}_-]+\]:\s*([\w-]*)$/u);
+		if (inFootnotes && typeMatch) {
+			this.mode = "type";
+			return {
+				start: { line: cursor.line, ch: cursor.ch - typeMatch[1].length },
+				end: cursor,
+				query: typeMatch[1],
+			};
+		}
+
+		const referenceMatch = prefix.match(/\$\[([\p{L}\p{N}_-]*)$/u);
+		if (referenceMatch) {
+			this.mode = "footnote";
+			// Swallow the bracket Obsidian may have auto-closed
+			const closing = line.charAt(cursor.ch) === "]" ? 1 : 0;
+			return {
+				start: {
+					line: cursor.line,
+					ch: cursor.ch - referenceMatch[0].length,
+				},
+				end: { line: cursor.line, ch: cursor.ch + closing },
+				query: referenceMatch[1],
+			};
+		}
+
+		if (/^-{1,3}[a-z0-9-]*$/.test(prefix)) {
+			this.mode = "marker";
+			return {
+				start: { line: cursor.line, ch: margin },
+				end: { line: cursor.line, ch: line.length },
+				query: prefix.replace(/^-+/, ""),
+			};
+		}
+
+		return null;
+	}
+
+	getSuggestions(context: EditorSuggestContext): CommentarySuggestion[] {
+		const bounds = this.blockBounds;
+		if (!bounds) return [];
+		const query = context.query.toLowerCase();
+
+		if (this.mode === "type") {
+			return this.plugin.settings.footnoteTypes
+				.filter(
+					(type) =>
+						type.keyword.toLowerCase().includes(query) ||
+						type.label.toLowerCase().includes(query)
+				)
+				.map((type) => ({ kind: "type", type }));
+		}
+
+		if (this.mode === "marker") {
+			return this.getMissingMarkers(bounds.doc).filter((suggestion) =>
+				suggestion.marker.includes(query)
+			);
+		}
+
+		// Only this block's definitions, in the layer the cursor is in
+		const { doc } = bounds;
+		const level = this.plugin.getLayerAtLine(bounds, context.start.line);
+		const seen: Set<string> = new Set();
+		const footnotes: CommentarySuggestion[] = [];
+		for (let i = doc.definitions.length - 1; i >= 0; i--) {
+			const def = doc.definitions[i];
+			if (getLevel(doc, def) !== level || seen.has(def.label)) continue;
+			seen.add(def.label);
+			if (
+				def.label.toLowerCase().includes(query) ||
+				def.content.toLowerCase().includes(query)
+			) {
+				footnotes.unshift({
+					kind: "footnote",
+					label: def.label,
+					preview: def.typeBody,
+				});
+			}
+		}
+
+		const named =
+			isFootnoteLabel(context.query) && !isNumericLabel(context.query);
+		footnotes.push({
+			kind: "new-footnote",
+			label: named && !seen.has(context.query) ? context.query : undefined,
+		});
+		return footnotes;
+	}
+
+	getMissingMarkers(
+		doc: CommentaryDocument
+	): { kind: "marker"; marker: string; description: string }[] {
+		const present = (kind: SectionKind, level: number) =>
+			doc.sections.some(
+				(section) => section.kind === kind && section.level === level
+			);
+		const markers: { kind: "marker"; marker: string; description: string }[] =
+			[];
+
+		// Text and commentary repeat for each passage; the rest appear once
+		SECTION_KINDS.forEach((kind) => {
+			const level = kind === "commentary" || kind === "footnote" ? 1 : 0;
+			const repeatable = kind === "text" || kind === "commentary";
+			if (repeatable || !present(kind, level)) {
+				markers.push({
+					kind: "marker",
+					marker: sectionMarker(kind),
+					description: MARKER_DESCRIPTIONS[kind],
+				});
+			}
+		});
+
+		// The next super-commentary layer, and footnotes for layers without
+		for (let level = 2; level <= MAX_LAYER; level++) {
+			if (present("commentary", level)) {
+				if (!present("footnote", level)) {
+					markers.push({
+						kind: "marker",
+						marker: sectionMarker("footnote", level),
+						description: `Footnotes of ${LAYER_TITLES[level]}`,
+					});
+				}
+				continue;
+			}
+			if (present("commentary", level - 1)) {
+				markers.push({
+					kind: "marker",
+					marker: sectionMarker("commentary", level),
+					description: LAYER_TITLES[level],
+				});
+			}
+			break;
+		}
+
+		return markers;
+	}
+
+	renderSuggestion(suggestion: CommentarySuggestion, el: HTMLElement) {
+		el.addClass("commentary-suggestion");
+		switch (suggestion.kind) {
+			case "footnote":
+				el.createDiv({ text: `$[${suggestion.label}]` });
+				el.createDiv({
+					cls: "commentary-suggestion-note",
+					text:
+						suggestion.preview.length > 80
+							? suggestion.preview.slice(0, 80) + "…"
+							: suggestion.preview,
+				});
+				break;
+			case "new-footnote":
+				el.createDiv({
+					text: suggestion.label
+						? `New footnote $[${suggestion.label}]`
+						: "New footnote",
+				});
+				break;
+			case "type":
+				this.plugin.renderFootnoteTypeIcon(el, suggestion.type);
+				el.createSpan({ text: suggestion.type.keyword });
+				el.createSpan({
+					cls: "commentary-suggestion-note",
+					text: ` ${suggestion.type.label}`,
+				});
+				break;
+			case "marker":
+				el.createDiv({ text: suggestion.marker });
+				el.createDiv({
+					cls: "commentary-suggestion-note",
+					text: suggestion.description,
+				});
+				break;
+		}
+	}
+
+	selectSuggestion(suggestion: CommentarySuggestion) {
+		const context = this.context;
+		if (!context) return;
+		const { editor, start, end } = context;
+
+		switch (suggestion.kind) {
+			case "footnote": {
+				const reference = `$[${suggestion.label}]`;
+				editor.replaceRange(reference, start, end);
+				editor.setCursor({
+					line: start.line,
+					ch: start.ch + reference.length,
+				});
+				break;
+			}
+			case "new-footnote":
+				// Reuse the footnote command, which replaces the typed text
+				// and writes the definition in one change
+				editor.setSelection(start, end);
+				this.plugin.createNewFootnote(
+					editor,
+					start,
+					suggestion.label
+				);
+				break;
+			case "type": {
+				const text = `${suggestion.type.keyword}:`;
+				editor.replaceRange(text, start, end);
+				editor.setCursor({ line: start.line, ch: start.ch + text.length });
+				break;
+			}
+			case "marker":
+				editor.replaceRange(suggestion.marker, start, end);
+				editor.setCursor({
+					line: start.line,
+					ch: start.ch + suggestion.marker.length,
+				});
+				break;
+		}
+	}
+}
+
+// Picks the note a new commentary block goes into
+class TargetNoteModal extends FuzzySuggestModal<TFile> {
+	source: TFile;
+	onChoose: (file: TFile) => void;
+
+	constructor(app: App, source: TFile, onChoose: (file: TFile) => void) {
+		super(app);
+		this.source = source;
+		this.onChoose = onChoose;
+		this.setPlaceholder("Note to add the commentary block to");
+	}
+
+	getItems(): TFile[] {
+		return this.app.vault
+			.getMarkdownFiles()
+			.filter((file) => file !== this.source);
+	}
+
+	getItemText(file: TFile): string {
+		return file.path;
+	}
+
+	onChooseItem(file: TFile) {
+		this.onChoose(file);
+	}
+}
+
+class FootnotePickerModal extends FuzzySuggestModal<FootnoteDefinition> {
+	definitions: FootnoteDefinition[];
+	onChoose: (definition: FootnoteDefinition) => void;
+
+	constructor(
+		app: App,
+		definitions: FootnoteDefinition[],
+		placeholder: string,
+		onChoose: (definition: FootnoteDefinition) => void
+	) {
+		super(app);
+		this.definitions = definitions;
+		this.onChoose = onChoose;
+		this.setPlaceholder(placeholder);
+	}
+
+	getItems(): FootnoteDefinition[] {
+		return this.definitions;
+	}
+
+	getItemText(definition: FootnoteDefinition): string {
+		return `$[${definition.label}] ${definition.typeBody}`;
+	}
+
+	onChooseItem(definition: FootnoteDefinition) {
+		this.onChoose(definition);
+	}
+}
+
+class FootnoteTypeModal extends FuzzySuggestModal<FootnoteType> {
+	plugin: CommentaryPlugin;
+	onChoose: (type: FootnoteType) => void;
+
+	constructor(
+		app: App,
+		plugin: CommentaryPlugin,
+		onChoose: (type: FootnoteType) => void
+	) {
+		super(app);
+		this.plugin = plugin;
+		this.onChoose = onChoose;
+		this.setPlaceholder("Footnote type");
+	}
+
+	getItems(): FootnoteType[] {
+		return this.plugin.settings.footnoteTypes;
+	}
+
+	getItemText(type: FootnoteType): string {
+		return `${type.label} (${type.keyword})`;
+	}
+
+	onChooseItem(type: FootnoteType) {
+		this.onChoose(type);
+	}
+}
+
+class FootnoteLabelModal extends Modal {
+	onSubmit: (label: string) => void;
+
+	constructor(app: App, onSubmit: (label: string) => void) {
+		super(app);
+		this.onSubmit = onSubmit;
+	}
+
+	onOpen() {
+		const { contentEl } = this;
+		contentEl.createEl("h3", { text: "Named footnote" });
+
+		let value = "";
+		const submit = () => {
+			const label = value.trim();
+			if (!isFootnoteLabel(label)) {
+				new Notice(
+					"Use letters, digits, hyphens or underscores, e.g. ibn-kathir-tafsir"
+				);
+				return;
+			}
+			this.close();
+			this.onSubmit(label);
+		};
+
+		new Setting(contentEl)
+			.setName("Label")
+			.setDesc("Rendered as the next footnote number")
+			.addText((text) => {
+				text.setPlaceholder("ibn-kathir-tafsir").onChange((v) => {
+					value = v;
+				});
+				text.inputEl.addEventListener("keydown", (e) => {
+					if (e.key === "Enter") {
+						e.preventDefault();
+						submit();
+					}
+				});
+				window.setTimeout(() => text.inputEl.focus(), 0);
+			});
+
+		new Setting(contentEl).addButton((button) =>
+			button.setButtonText("Insert").setCta().onClick(submit)
+		);
+	}
+
+	onClose() {
+		this.contentEl.empty();
+	}
+}
+
+const SEVERITY_ICONS: Record<string, string> = {
+	error: "⛔",
+	warning: "⚠️",
+	info: "ℹ️",
+};
+
+class CommentaryProblemsView extends ItemView {
+	plugin: CommentaryPlugin;
+	lintScope: LintScope = "note";
+	problems: CommentaryProblem[] = [];
+
+	constructor(leaf: WorkspaceLeaf, plugin: CommentaryPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_COMMENTARY_PROBLEMS;
+	}
+
+	getDisplayText(): string {
+		return "Commentary Problems";
+	}
+
+	getIcon(): string {
+		return "alert-triangle";
+	}
+
+	async onOpen() {
+		this.render();
+	}
+
+	setProblems(scope: LintScope, problems: CommentaryProblem[]) {
+		this.lintScope = scope;
+		this.problems = problems;
+		this.render();
+	}
+
+	render() {
+		const container = this.contentEl;
+		container.empty();
+		container.addClass("commentary-problems");
+
+		const header = container.createDiv({
+			cls: "commentary-problems-header",
+		});
+		header.createSpan({
+			text: `${this.problems.length} problem${
+				this.problems.length === 1 ? "" : "s"
+			} in ${this.lintScope === "note" ? "current note" : "vault"}`,
+		});
+		const rerun = header.createEl("button", { text: "Re-run" });
+		rerun.addEventListener("click", () => {
+			this.plugin.runLint(this.lintScope);
+		});
+
+		// Group problems by note
+		const byFile: Map<string, CommentaryProblem[]> = new Map();
+		this.problems.forEach((problem) => {
+			const list = byFile.get(problem.file.path) || [];
+			list.push(problem);
+			byFile.set(problem.file.path, list);
+		});
+
+		byFile.forEach((problems, path) => {
+			container.createDiv({ cls: "commentary-problems-file", text: path });
+			const list = container.createEl("ul", {
+				cls: "commentary-problems-list",
+			});
+
+			problems.forEach((problem) => {
+				const { diagnostic } = problem;
+				const item = list.createEl("li", {
+					cls: `commentary-problem commentary-problem-${diagnostic.severity}`,
+				});
+				item.createSpan({
+					cls: "commentary-problem-icon",
+					text: SEVERITY_ICONS[diagnostic.severity],
+				});
+				item.createSpan({
+					cls: "commentary-problem-message",
+					text: diagnostic.message,
+				});
+				item.createSpan({
+					cls: "commentary-problem-line",
+					text: `line ${problem.line + 1}`,
+				});
+				item.addEventListener("click", () => {
+					this.plugin.openProblem(problem);
+				});
+
+				if (diagnostic.fix) {
+					const fix = item.createEl("button", {
+						cls: "commentary-problem-fix",
+						text: diagnostic.fix.label,
+					});
+					fix.addEventListener("click", async (e) => {
+						e.stopPropagation();
+						if (await this.plugin.applyLintFix(problem)) {
+							this.plugin.runLint(this.lintScope);
+						}
+					});
+				}
+			});
+		});
+	}
+}
+
+class CommentaryExplorerView extends ItemView {
+	plugin: CommentaryPlugin;
+	explorerScope: LintScope = "note";
+	tagFilter = "";
+	typeFilter = "";
+	summaries: CommentaryBlockSummary[] = [];
+	refreshTimer: number | null = null;
+
+	constructor(leaf: WorkspaceLeaf, plugin: CommentaryPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_COMMENTARY_EXPLORER;
+	}
+
+	getDisplayText(): string {
+		return "Commentary Explorer";
+	}
+
+	getIcon(): string {
+		return "book-open";
+	}
+
+	async onOpen() {
+		this.registerEvent(
+			this.app.workspace.on("active-leaf-change", (leaf) => {
+				// Focusing the explorer itself shouldn't empty it
+				if (
+					this.explorerScope === "note" &&
+					leaf?.view instanceof MarkdownView
+				) {
+					this.scheduleRefresh();
+				}
+			})
+		);
+		this.register(
+			this.plugin.commentaryIndex.onChange((path) => {
+				const active = this.app.workspace.getActiveFile();
+				if (
+					this.explorerScope === "vault" ||
+					!path ||
+					path === active?.path
+				) {
+					this.scheduleRefresh();
+				}
+			})
+		);
+		this.refresh();
+	}
+
+	async onClose() {
+		if (this.refreshTimer !== null) window.clearTimeout(this.refreshTimer);
+	}
+
+	// Typing fires modify repeatedly; rebuild once things settle
+	scheduleRefresh() {
+		if (this.refreshTimer !== null) window.clearTimeout(this.refreshTimer);
+		this.refreshTimer = window.setTimeout(() => {
+			this.refreshTimer = null;
+			this.refresh();
+		}, 500);
+	}
+
+	refresh() {
+		const { commentaryIndex } = this.plugin;
+		const active = this.app.workspace.getActiveFile();
+		const blocks =
+			this.explorerScope === "vault"
+				? commentaryIndex.getBlocks()
+				: active
+				? commentaryIndex.getNote(active.path)
+				: [];
+
+		const summaries: CommentaryBlockSummary[] = [];
+		blocks.forEach((block) => {
+			const file = this.app.vault.getAbstractFileByPath(block.path);
+			if (file instanceof TFile) {
+				summaries.push(this.plugin.summarizeBlock(file, block));
+			}
+		});
+		this.summaries = summaries;
+		this.render();
+	}
+
+	render() {
+		const container = this.contentEl;
+		container.empty();
+		container.addClass("commentary-explorer");
+
+		const header = container.createDiv({
+			cls: "commentary-explorer-header",
+		});
+		const scope = header.createEl("select", { cls: "dropdown" });
+		scope.createEl("option", { text: "Current note", value: "note" });
+		scope.createEl("option", { text: "Whole vault", value: "vault" });
+		scope.value = this.explorerScope;
+		scope.addEventListener("change", () => {
+			this.explorerScope = scope.value as LintScope;
+			this.refresh();
+		});
+
+		// Filters offer only the tags and types that actually occur
+		const tags = new Set<string>();
+		const types = new Set<string>();
+		this.summaries.forEach((summary) => {
+			summary.tags.forEach((tag) => tags.add(tag));
+			summary.footnoteTypes.forEach((type) => types.add(type));
+		});
+		this.createFilter(
+			header,
+			"All tags",
+			Array.from(tags).sort(),
+			this.tagFilter,
+			(value) => (this.tagFilter = value)
+		);
+		this.createFilter(
+			header,
+			"All footnote types",
+			Array.from(types).sort(),
+			this.typeFilter,
+			(value) => (this.typeFilter = value)
+		);
+
+		const refresh = header.createEl("button", { text: "Refresh" });
+		refresh.addEventListener("click", () => {
+			this.refresh();
+		});
+
+		const visible = this.summaries.filter(
+			(summary) =>
+				(!this.tagFilter || summary.tags.includes(this.tagFilter)) &&
+				(!this.typeFilter ||
+					summary.footnoteTypes.includes(this.typeFilter))
+		);
+
+		if (visible.length === 0) {
+			container.createDiv({
+				cls: "commentary-explorer-empty",
+				text:
+					this.summaries.length === 0
+						? "No commentary blocks"
+						: "No blocks match the filters",
+			});
+			return;
+		}
+
+		// Group blocks by note
+		const byFile: Map<string, CommentaryBlockSummary[]> = new Map();
+		visible.forEach((summary) => {
+			const list = byFile.get(summary.file.path) || [];
+			list.push(summary);
+			byFile.set(summary.file.path, list);
+		});
+
+		byFile.forEach((summaries, path) => {
+			if (this.explorerScope === "vault") {
+				container.createDiv({
+					cls: "commentary-explorer-file",
+					text: path,
+				});
+			}
+			const list = container.createEl("ul", {
+				cls: "commentary-explorer-list",
+			});
+			summaries.forEach((summary) => this.renderSummary(list, summary));
+		});
+	}
+
+	showTag(tag: string) {
+		this.explorerScope = "vault";
+		this.tagFilter = tag;
+		this.typeFilter = "";
+		this.refresh();
+	}
+
+	createFilter(
+		parent: HTMLElement,
+		placeholder: string,
+		values: string[],
+		current: string,
+		onChange: (value: string) => void
+	) {
+		if (values.length === 0 && !current) return;
+
+		const select = parent.createEl("select", { cls: "dropdown" });
+		select.createEl("option", { text: placeholder, value: "" });
+		values.forEach((value) => {
+			select.createEl("option", { text: value, value });
+		});
+		select.value = current;
+		select.addEventListener("change", () => {
+			onChange(select.value);
+			this.render();
+		});
+	}
+
+	renderSummary(list: HTMLElement, summary: CommentaryBlockSummary) {
+		const item = list.createEl("li", { cls: "commentary-explorer-item" });
+		item.createDiv({ cls: "commentary-explorer-title", text: summary.title });
+
+		if (summary.tags.length > 0) {
+			const tags = item.createDiv({ cls: "commentary-block-tags" });
+			summary.tags.forEach((tag) => {
+				const chip = tags.createSpan({
+					cls: "commentary-tag",
+					text: `#${tag}`,
+				});
+				chip.addEventListener("click", (e) => {
+					e.stopPropagation();
+					this.showTag(tag);
+				});
+			});
+		}
+
+		const details = item.createDiv({ cls: "commentary-explorer-details" });
+		details.createSpan({ text: `${summary.words} words` });
+		details.createSpan({
+			text: `${summary.footnotes} footnote${
+				summary.footnotes === 1 ? "" : "s"
+			}`,
+		});
+
+		const status = details.createSpan({ cls: "commentary-explorer-status" });
+		if (summary.errors > 0) {
+			status.addClass("commentary-problem-error");
+			status.setText(`${SEVERITY_ICONS.error} ${summary.errors}`);
+		} else if (summary.warnings > 0) {
+			status.addClass("commentary-problem-warning");
+			status.setText(`${SEVERITY_ICONS.warning} ${summary.warnings}`);
+		} else {
+			status.setText("✓");
+		}
+		status.setAttribute(
+			"aria-label",
+			`${summary.errors} errors, ${summary.warnings} warnings`
+		);
+
+		item.addEventListener("click", () => {
+			this.plugin.openBlock(summary);
+		});
+	}
+}
+
+class CommentaryTagsView extends ItemView {
+	plugin: CommentaryPlugin;
+	renderTimer: number | null = null;
+
+	constructor(leaf: WorkspaceLeaf, plugin: CommentaryPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_COMMENTARY_TAGS;
+	}
+
+	getDisplayText(): string {
+		return "Commentary Tags";
+	}
+
+	getIcon(): string {
+		return "tags";
+	}
+
+	async onOpen() {
+		this.register(
+			this.plugin.commentaryIndex.onChange(() => this.scheduleRender())
+		);
+		this.render();
+	}
+
+	async onClose() {
+		if (this.renderTimer !== null) window.clearTimeout(this.renderTimer);
+	}
+
+	// Typing fires modify repeatedly; count tags once things settle
+	scheduleRender() {
+		if (this.renderTimer !== null) window.clearTimeout(this.renderTimer);
+		this.renderTimer = window.setTimeout(() => {
+			this.renderTimer = null;
+			this.render();
+		}, 500);
+	}
+
+	render() {
+		const container = this.contentEl;
+		container.empty();
+		container.addClass("commentary-tags-view");
+
+		const counts = Array.from(this.plugin.getTagCounts()).sort(
+			(a, b) => b[1] - a[1] || a[0].localeCompare(b[0])
+		);
+		if (counts.length === 0) {
+			container.createDiv({
+				cls: "commentary-explorer-empty",
+				text: "No tagged commentary blocks",
+			});
+			return;
+		}
+
+		const list = container.createEl("ul", {
+			cls: "commentary-tags-list",
+		});
+		counts.forEach(([tag, count]) => {
+			const item = list.createEl("li", { cls: "commentary-tags-item" });
+			item.createSpan({ cls: "commentary-tag", text: `#${tag}` });
+			item.createSpan({
+				cls: "commentary-tags-count",
+				text: String(count),
+			});
+			item.addEventListener("click", () => {
+				this.plugin.showTagInExplorer(tag);
+			});
+		});
+	}
+}
+
+class CommentaryBacklinksView extends ItemView {
+	plugin: CommentaryPlugin;
+	renderTimer: number | null = null;
+
+	constructor(leaf: WorkspaceLeaf, plugin: CommentaryPlugin) {
+		super(leaf);
+		this.plugin = plugin;
+	}
+
+	getViewType(): string {
+		return VIEW_TYPE_COMMENTARY_BACKLINKS;
+	}
+
+	getDisplayText(): string {
+		return "Commentary Backlinks";
+	}
+
+	getIcon(): string {
+		return "links-coming-in";
+	}
+
+	async onOpen() {
+		this.registerEvent(
+			this.app.workspace.on("file-open", () => this.render())
+		);
+		this.register(
+			this.plugin.commentaryIndex.onChange(() => this.scheduleRender())
+		);
+		this.render();
+	}
+
+	async onClose() {
+		if (this.renderTimer !== null) window.clearTimeout(this.renderTimer);
+	}
+
+	// Typing fires modify repeatedly; look links up once things settle
+	scheduleRender() {
+		if (this.renderTimer !== null) window.clearTimeout(this.renderTimer);
+		this.renderTimer = window.setTimeout(() => {
+			this.renderTimer = null;
+			this.render();
+		}, 500);
+	}
+
+	render() {
+		const container = this.contentEl;
+		container.empty();
+		container.addClass("commentary-backlinks");
+
+		const file = this.app.workspace.getActiveFile();
+		if (!file) {
+			container.createDiv({
+				cls: "commentary-explorer-empty",
+				text: "No note open",
+			});
+			return;
+		}
+
+		const backlinks = this.plugin.getCommentaryBacklinks(file);
+		container.createDiv({
+			cls: "commentary-problems-header",
+			text: `${backlinks.length} commentary block${
+				backlinks.length === 1 ? "" : "s"
+			} link to ${file.basename}`,
+		});
+
+		backlinks.forEach(({ block, links }) => {
+			const source = this.app.vault.getAbstractFileByPath(block.path);
+			if (!(source instanceof TFile)) return;
+			const title = block.metadata.title || "Commentary Block";
+
+			const item = container.createDiv({
+				cls: "commentary-backlinks-block",
+			});
+			item.createDiv({
+				cls: "commentary-explorer-title",
+				text: `${title} — ${source.basename}`,
+			});
+
+			const list = item.createEl("ul", {
+				cls: "commentary-explorer-list",
+			});
+			links.forEach((link) => {
+				const entry = list.createEl("li", {
+					cls: "commentary-explorer-item",
+				});
+				entry.createSpan({
+					cls: "commentary-backlinks-kind",
+					text: link.kind,
+				});
+				entry.createSpan({ text: link.context });
+				entry.addEventListener("click", () => {
+					this.plugin.openBlock(
+						this.plugin.summarizeBlock(source, block),
+						link.line
+					);
+				});
+			});
+		});
+	}
+}
+
+// Live result of a ```commentary-query block, re-run as the index changes
+class CommentaryQueryRenderChild extends MarkdownRenderChild {
+	plugin: CommentaryPlugin;
+	source: string;
+	renderTimer: number | null = null;
+
+	constructor(
+		containerEl: HTMLElement,
+		plugin: CommentaryPlugin,
+		source: string
+	) {
+		super(containerEl);
+		this.plugin = plugin;
+		this.source = source;
+	}
+
+	onload() {
+		this.render();
+		this.register(
+			this.plugin.commentaryIndex.onChange(() => {
+				if (this.renderTimer !== null) {
+					window.clearTimeout(this.renderTimer);
+				}
+				this.renderTimer = window.setTimeout(() => {
+					this.renderTimer = null;
+					this.render();
+				}, 500);
+			})
+		);
+	}
+
+	onunload() {
+		if (this.renderTimer !== null) window.clearTimeout(this.renderTimer);
 	}
 
-	async loadSettings() {
-		this.settings = Object.assign(
-			{},
-			DEFAULT_SETTINGS,
-			await this.loadData()
+	render() {
+		const container = this.containerEl;
+		container.empty();
+		container.addClass("commentary-query");
+
+		const { query, errors } = parseQuery(this.source);
+		if (errors.length > 0) {
+			const list = container.createEl("ul", {
+				cls: "commentary-query-errors",
+			});
+			errors.forEach((error) => {
+				list.createEl("li", {
+					text: `Line ${error.line + 1}: ${error.message}`,
+				});
+			});
+			return;
+		}
+
+		const results: {
+			block: IndexedBlock;
+			summary: CommentaryBlockSummary;
+		}[] = [];
+		runQuery(this.plugin.commentaryIndex.getBlocks(), query).forEach(
+			(block) => {
+				const file = this.plugin.app.vault.getAbstractFileByPath(
+					block.path
+				);
+				if (file instanceof TFile) {
+					results.push({
+						block,
+						summary: this.plugin.summarizeBlock(file, block),
+					});
+				}
+			}
 		);
+
+		if (results.length === 0) {
+			container.createDiv({
+				cls: "commentary-query-empty",
+				text: "No matching commentary blocks",
+			});
+			return;
+		}
+
+		if (query.format === "list") {
+			const list = container.createEl("ul", {
+				cls: "commentary-query-list",
+			});
+			results.forEach(({ block, summary }) => {
+				const item = list.createEl("li");
+				this.createBlockLink(item, summary);
+				item.createSpan({
+					cls: "commentary-query-path",
+					text: ` — ${summary.file.basename}`,
+				});
+
+				// List the footnotes the query asked for, e.g. open questions
+				const footnotes = getQueriedFootnotes(block, query);
+				if (footnotes.length > 0) {
+					const sublist = item.createEl("ul");
+					footnotes.forEach((footnote) => {
+						sublist.createEl("li", {
+							text: `$[${footnote.label}] ${footnote.content}`,
+						});
+					});
+				}
+			});
+			return;
+		}
+
+		const table = container.createEl("table", {
+			cls: "commentary-query-table",
+		});
+		const head = table.createEl("thead").createEl("tr");
+		["Block", "Note", "Tags", "Words", "Footnotes"]
+			.concat(query.types)
+			.forEach((heading) => head.createEl("th", { text: heading }));
+
+		const body = table.createEl("tbody");
+		results.forEach(({ block, summary }) => {
+			const row = body.createEl("tr");
+			this.createBlockLink(row.createEl("td"), summary);
+			row.createEl("td", { text: summary.file.basename });
+			row.createEl("td", {
+				text: summary.tags.map((tag) => `#${tag}`).join(" "),
+			});
+			row.createEl("td", { text: String(summary.words) });
+			row.createEl("td", { text: String(summary.footnotes) });
+			query.types.forEach((type) => {
+				row.createEl("td", {
+					text: String((block.footnotes[type] || []).length),
+				});
+			});
+		});
+
+		container.createDiv({
+			cls: "commentary-query-count",
+			text: `${results.length} block${results.length === 1 ? "" : "s"}`,
+		});
 	}
 
-	async saveSettings() {
-		await this.saveData(this.settings);
+	createBlockLink(parent: HTMLElement, summary: CommentaryBlockSummary) {
+		const link = parent.createEl("a", {
+			cls: "commentary-query-link",
+			text: summary.title,
+			attr: { href: "#" },
+		});
+		link.addEventListener("click", (e) => {
+			e.preventDefault();
+			this.plugin.openBlock(summary);
+		});
 	}
 }
 
@@ -1897,12 +6103,41 @@ class CommentarySettingTab extends PluginSettingTab {
 					})
 			);
 
+		new Setting(containerEl)
+			.setName("Sync Tags to Properties")
+			.setDesc(
+				"Copy each note's block titles and tags into its properties (commentary-titles, commentary-tags and tags) so tag search, the tag pane and other plugins can see them"
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.syncFrontmatter)
+					.onChange(async (value) => {
+						this.plugin.settings.syncFrontmatter = value;
+						await this.plugin.saveSettings();
+					})
+			);
+
+		new Setting(containerEl)
+			.setName("Editor Highlighting")
+			.setDesc(
+				"Style section markers, footnotes and anchors in the editor, with a badge per section and folding from each marker"
+			)
+			.addToggle((toggle) =>
+				toggle
+					.setValue(this.plugin.settings.enableEditorHighlighting)
+					.onChange(async (value) => {
+						this.plugin.settings.enableEditorHighlighting = value;
+						await this.plugin.saveSettings();
+						this.plugin.updateEditorExtensions();
+					})
+			);
+
 		new Setting(containerEl)
 			.setName("Default Footnote Type")
 			.setDesc("Default type for new footnotes")
 			.addDropdown((dropdown) => {
-				Object.keys(FOOTNOTE_TYPES).forEach((type) => {
-					dropdown.addOption(type, type);
+				this.plugin.settings.footnoteTypes.forEach((type) => {
+					dropdown.addOption(type.keyword, type.label || type.keyword);
 				});
 				dropdown
 					.setValue(this.plugin.settings.defaultFootnoteType)
@@ -1930,6 +6165,8 @@ class CommentarySettingTab extends PluginSettingTab {
 					})
 			);
 
+		this.displayFootnoteTypes(containerEl);
+
 		containerEl.createEl("h3", { text: "Keyboard Shortcuts" });
 		const shortcutsEl = containerEl.createEl("div", {
 			cls: "setting-item-description",
@@ -1937,7 +6174,7 @@ class CommentarySettingTab extends PluginSettingTab {
 
 		shortcutsEl.innerHTML = `
             <ul>
-                <li><code>Ctrl+Shift+C</code> - Insert new commentary block</li>
+                <li><code>Ctrl+Shift+C</code> - Insert new commentary block, quoting the selection as its text if there is one</li>
                 <li><code>Ctrl+Shift+F</code> - Smart footnote command:
                     <ul>
                         <li>In empty space → Create new footnote + jump to definition</li>
@@ -1945,7 +6182,7 @@ class CommentarySettingTab extends PluginSettingTab {
                         <li>On footnote definition → Jump to reference</li>
                     </ul>
                 </li>
-                <li>Use command palette for: Toggle all blocks</li>
+                <li>Use command palette for: Toggle all blocks, Show uncommented passages, Lint commentary blocks (current note or vault), Renumber footnotes (current block or whole note), Delete footnote (optionally renumbering), Convert footnote to inline commentary and back, Merge footnote into another, Move footnote reference here, Insert named footnote, Open commentary explorer, Open commentary tags, Sync commentary titles and tags to properties, Open commentary backlinks, Create commentary block from selection (also in the editor's right-click menu)</li>
             </ul>
         `;
 
@@ -1959,6 +6196,7 @@ class CommentarySettingTab extends PluginSettingTab {
                 <li><strong>Create footnote:</strong> Place cursor anywhere in commentary text and press the shortcut</li>
                 <li><strong>Jump to definition:</strong> Place cursor on any footnote reference like <code>$[1]</code> and press the shortcut</li>
                 <li><strong>Jump to reference:</strong> Place cursor on any footnote definition and press the shortcut</li>
+                <li><strong>Right-click menu:</strong> Right-click a footnote in the editor, or a block header, footnote reference or footnote in reading view, to change its type, delete it or edit it in the source</li>
             </ul>
             <p><strong>Footnote Structure:</strong></p>
             <pre>---commentary---
@@ -1981,8 +6219,9 @@ This is text with a footnote $[1] and another $[2].
 $[1]: This is the first footnote.
 $[2]: This is the second footnote.</pre>
             <p><strong>Footnote Reference:</strong> <code>$[1]</code>, <code>$[2]</code>, etc.</p>
+            <p><strong>Named footnotes:</strong> <code>$[ibn-kathir-tafsir]</code> with <code>$[ibn-kathir-tafsir]: Text</code>. Named footnotes are numbered in reading order like the others and can be cited more than once.</p>
             <p><strong>Footnote Definition:</strong> <code>$[1]: Your footnote content here</code></p>
-            <p><strong>Typed footnotes:</strong></p>
+            <p><strong>Typed footnotes</strong> (the built-in types; add your own under Footnote Types above):</p>
             <ul>
                 <li>📝 Note: <code>$[1]: note:Text</code></li>
                 <li>⚠️ Warning: <code>$[2]: warning:Text</code></li>
@@ -1991,10 +6230,184 @@ $[2]: This is the second footnote.</pre>
                 <li>💡 Idea: <code>$[5]: idea:Text</code></li>
                 <li>❓ Question: <code>$[6]: question:Text</code></li>
             </ul>
+            <p><strong>Multiple passages:</strong> repeat <code>---text---</code> and <code>---commentary---</code> pairs to split a long text into passage → commentary units. Footnote numbering continues across passages.</p>
+            <p><strong>Passage anchors:</strong> put <code>@[1]</code> in the text to start passage 1, and <code>@[1]</code> in a commentary paragraph to tie it to that passage. Hover or click either side in reading view to highlight the other.</p>
+            <pre>---text---
+@[1] First sentence. @[2] Second sentence.
+
+---commentary---
+@[1] On the first sentence...</pre>
+            <p><strong>Critical apparatus:</strong> put <code>&amp;[1]</code> right after the lemma in the text and describe the variants in an <code>---apparatus---</code> section. Declare witness sigla once in the metadata.</p>
+            <pre>---metadata---
+sigla: ب = Berlin MS; ج = Cairo MS
+
+---text---
+ثم قال&amp;[1] الشيخ
+
+---apparatus---
+&amp;[1]: قال ] ب: وقال; ج: فقال</pre>
+            <p><strong>Super-commentary:</strong> add <code>---commentary-2---</code> (hashiya) and <code>---commentary-3---</code> layers with their own <code>---footnote-2---</code> / <code>---footnote-3---</code> series. Mark passages in a layer with <code>@@[1]</code>; <code>@[1]</code> in the next layer comments on them.</p>
+            <p><strong>Block links:</strong> each block has a persistent id, set with <code>id:</code> in the metadata or a <code>^block-id</code> line after the closing fence. The 🔗 button copies a <code>[[Note#^block-id]]</code> link that opens the note and expands the block.</p>
             <p><strong>Multi-line footnotes:</strong></p>
             <pre>$[1]: This is a multi-line footnote
 that can span multiple lines naturally.
 Just continue writing on the next lines.</pre>
+            <p><strong>Transcluded text:</strong> write <code>source: [[Note#^passage]]</code> as the whole body of a <code>---text---</code> section to show that passage live instead of a pasted copy. Pin it to record a hash in the metadata (<code>sourcehash:</code>); the block then warns when the passage changes, and the source note shows 💬 next to passages that have commentary.</p>
+            <p><strong>Links:</strong> wikilinks and Markdown links anywhere in a block resolve relative to its note, count in the graph, and show up in the Commentary Backlinks pane of the note they point to.</p>
+            <p><strong>Listing blocks:</strong> a <code>commentary-query</code> code block lists matching blocks from the whole vault and updates as notes change. Filter with <code>tag:</code>, <code>title:</code>, <code>folder:</code> and <code>type:</code> (blocks with footnotes of that type), and shape the result with <code>sort: words desc</code>, <code>limit: 20</code> and <code>format: list</code>.</p>
+            <pre>\`\`\`commentary-query
+tag: fiqh
+type: question
+format: list
+\`\`\`</pre>
         `;
 	}
+
+	displayFootnoteTypes(containerEl: HTMLElement) {
+		containerEl.createEl("h3", { text: "Footnote Types" });
+		containerEl.createEl("p", {
+			cls: "setting-item-description",
+			text: "Write the keyword before a colon to type a footnote, as in $[1]: grammar:Text. The icon can be an emoji or a Lucide icon name.",
+		});
+
+		const types = this.plugin.settings.footnoteTypes;
+
+		types.forEach((type, index) => {
+			const setting = new Setting(containerEl)
+				.setClass("commentary-footnote-type-setting")
+				.addText((text) =>
+					text
+						.setPlaceholder("keyword")
+						.setValue(type.keyword)
+						.onChange(async (value) => {
+							const keyword = value.trim();
+							// Keywords must parse before the colon and be unique
+							const valid =
+								/^[\w-]+$/.test(keyword) &&
+								!types.some(
+									(other) =>
+										other !== type &&
+										other.keyword === keyword
+								);
+							text.inputEl.toggleClass("is-invalid", !valid);
+							if (!valid) return;
+
+							const { settings } = this.plugin;
+							if (settings.defaultFootnoteType === type.keyword) {
+								settings.defaultFootnoteType = keyword;
+							}
+							type.keyword = keyword;
+							await this.plugin.saveSettings();
+						})
+				)
+				.addText((text) =>
+					text
+						.setPlaceholder("icon")
+						.setValue(type.icon)
+						.onChange(async (value) => {
+							type.icon = value.trim();
+							await this.plugin.saveSettings();
+						})
+				)
+				.addText((text) =>
+					text
+						.setPlaceholder("color")
+						.setValue(type.color)
+						.onChange(async (value) => {
+							type.color = value.trim();
+							await this.plugin.saveSettings();
+						})
+				)
+				.addText((text) =>
+					text
+						.setPlaceholder("label")
+						.setValue(type.label)
+						.onChange(async (value) => {
+							type.label = value;
+							await this.plugin.saveSettings();
+						})
+				)
+				.addDropdown((dropdown) => {
+					(
+						Object.keys(FOOTNOTE_RENDER_STYLES) as FootnoteRenderStyle[]
+					).forEach((style) => {
+						dropdown.addOption(style, FOOTNOTE_RENDER_STYLES[style]);
+					});
+					dropdown.setValue(type.style).onChange(async (value) => {
+						type.style = value as FootnoteRenderStyle;
+						await this.plugin.saveSettings();
+					});
+				})
+				.addExtraButton((button) =>
+					button
+						.setIcon("arrow-up")
+						.setTooltip("Move up")
+						.setDisabled(index === 0)
+						.onClick(() => this.moveFootnoteType(index, -1))
+				)
+				.addExtraButton((button) =>
+					button
+						.setIcon("arrow-down")
+						.setTooltip("Move down")
+						.setDisabled(index === types.length - 1)
+						.onClick(() => this.moveFootnoteType(index, 1))
+				)
+				.addExtraButton((button) =>
+					button
+						.setIcon("trash")
+						.setTooltip("Delete")
+						.setDisabled(types.length === 1)
+						.onClick(async () => {
+							const { settings } = this.plugin;
+							types.splice(index, 1);
+							if (!this.plugin.getFootnoteType(settings.defaultFootnoteType)) {
+								settings.defaultFootnoteType = types[0].keyword;
+							}
+							await this.plugin.saveSettings();
+							this.display();
+						})
+				);
+			this.plugin.renderFootnoteTypeIcon(setting.nameEl, type);
+		});
+
+		new Setting(containerEl)
+			.addButton((button) =>
+				button.setButtonText("Add footnote type").onClick(async () => {
+					let keyword = "type";
+					for (let i = 2; this.plugin.getFootnoteType(keyword); i++) {
+						keyword = `type${i}`;
+					}
+					types.push({
+						keyword,
+						icon: "🏷️",
+						color: "var(--text-normal)",
+						label: "New type",
+						style: "inline",
+					});
+					await this.plugin.saveSettings();
+					this.display();
+				})
+			)
+			.addButton((button) =>
+				button.setButtonText("Restore defaults").onClick(async () => {
+					const { settings } = this.plugin;
+					settings.footnoteTypes = DEFAULT_FOOTNOTE_TYPES.map(
+						(type) => ({ ...type })
+					);
+					if (!this.plugin.getFootnoteType(settings.defaultFootnoteType)) {
+						settings.defaultFootnoteType = "note";
+					}
+					await this.plugin.saveSettings();
+					this.display();
+				})
+			);
+	}
+
+	async moveFootnoteType(index: number, offset: number) {
+		const types = this.plugin.settings.footnoteTypes;
+		const [type] = types.splice(index, 1);
+		types.splice(index + offset, 0, type);
+		await this.plugin.saveSettings();
+		this.display();
+	}
 }
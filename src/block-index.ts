@@ -0,0 +1,129 @@
+// Block layout of one open note: where its fenced code and commentary blocks
+// are, with each block's content parsed on demand. An editor keeps one per
+// document and updates it from each change, rescanning only from the edit
+// to the first line both the old and new scans agree on.
+
+import {
+	CommentaryBlockLocation,
+	CommentaryDocument,
+	FenceRegion,
+	NoteLines,
+	parseCommentary,
+	scanFences,
+} from "./parser";
+
+// Lines `from` to `toOld` of the old note became `from` to `toNew` of the
+// new one, both inclusive
+export interface LineChange {
+	from: number;
+	toOld: number;
+	toNew: number;
+}
+
+export class BlockIndex {
+	regions: FenceRegion[];
+	blocks: CommentaryBlockLocation[];
+	// Parsed on first use and carried over while a block's source is unchanged
+	docs: Map<CommentaryBlockLocation, CommentaryDocument>;
+
+	constructor(
+		regions: FenceRegion[],
+		docs: Map<CommentaryBlockLocation, CommentaryDocument> = new Map()
+	) {
+		this.regions = regions;
+		this.blocks = [];
+		regions.forEach((region) => {
+			if (region.block) this.blocks.push(region.block);
+		});
+		this.docs = docs;
+	}
+
+	static build(lines: NoteLines): BlockIndex {
+		return new BlockIndex(scanFences(lines, 0).regions);
+	}
+
+	// Index of the note after a change. `mapOffset` maps an offset after the
+	// change from the old note to the new one.
+	update(
+		lines: NoteLines,
+		change: LineChange,
+		mapOffset: (offset: number) => number
+	): BlockIndex {
+		const delta = change.toNew - change.toOld;
+
+		// Regions that end before the change are untouched. The line after a
+		// closing fence is read for a block id, so it counts as part of it.
+		const kept = this.regions.filter((region) => region.next < change.from);
+		const start = kept.length > 0 ? kept[kept.length - 1].next : 0;
+
+		// Past the change, the scans agree from the first line both reach
+		// outside any fence
+		const later = this.regions.filter(
+			(region) => region.next > change.toOld
+		);
+		let k = 0;
+		const synced = (line: number) => {
+			if (line <= change.toNew) return false;
+			const old = line - delta;
+			while (k < later.length && later[k].next <= old) k++;
+			return k === later.length || later[k].startLine >= old;
+		};
+		const scan = scanFences(lines, start, synced);
+
+		const docs: Map<CommentaryBlockLocation, CommentaryDocument> =
+			new Map();
+		kept.forEach((region) => {
+			const doc = region.block && this.docs.get(region.block);
+			if (doc && region.block) docs.set(region.block, doc);
+		});
+
+		const shifted = later
+			.filter((region) => region.startLine >= scan.end - delta)
+			.map((region) => {
+				if (!region.block) {
+					return {
+						startLine: region.startLine + delta,
+						next: region.next + delta,
+					};
+				}
+				const block = {
+					...region.block,
+					startLine: region.block.startLine + delta,
+					endLine: region.block.endLine + delta,
+					contentStart: mapOffset(region.block.contentStart),
+				};
+				const doc = this.docs.get(region.block);
+				if (doc) docs.set(block, doc);
+				return {
+					startLine: region.startLine + delta,
+					next: region.next + delta,
+					block,
+				};
+			});
+
+		return new BlockIndex([...kept, ...scan.regions, ...shifted], docs);
+	}
+
+	// The first block whose fences or content include the line. An unclosed
+	// block ends on the line that ended it, which may open the next one.
+	blockAt(line: number): CommentaryBlockLocation | undefined {
+		let low = 0;
+		let high = this.blocks.length;
+		while (low < high) {
+			const mid = (low + high) >> 1;
+			if (this.blocks[mid].endLine < line) low = mid + 1;
+			else high = mid;
+		}
+		const block = this.blocks[low];
+		return block && block.startLine <= line ? block : undefined;
+	}
+
+	getDoc(block: CommentaryBlockLocation): CommentaryDocument {
+		let doc = this.docs.get(block);
+		if (!doc) {
+			doc = parseCommentary(block.source);
+			this.docs.set(block, doc);
+		}
+		return doc;
+	}
+}
@@ -0,0 +1,230 @@
+// In-memory index of every commentary block in the vault. Like the parser,
+// this module has no Obsidian dependencies: the plugin feeds it note contents
+// as files change and reads blocks back for views and queries.
+
+import {
+	CommentaryDocument,
+	CommentaryMetadata,
+	SectionKind,
+	findCommentaryBlocks,
+	findLinks,
+	getTextSources,
+	getLevel,
+	getSectionText,
+	parseCommentary,
+} from "./parser";
+
+export interface IndexedFootnote {
+	label: string;
+	level: number;
+	// Line of the definition within the note
+	line: number;
+	content: string;
+}
+
+export interface IndexedLink {
+	linkpath: string;
+	subpath: string;
+	embed: boolean;
+	// Line of the link within the note
+	line: number;
+	kind: SectionKind;
+	context: string;
+}
+
+export interface IndexedBlock {
+	path: string;
+	// Position among the note's commentary blocks
+	index: number;
+	// Opening and closing fence lines within the note
+	startLine: number;
+	endLine: number;
+	blockRef?: string;
+	metadata: CommentaryMetadata;
+	// Definitions grouped by footnote type keyword
+	footnotes: Record<string, IndexedFootnote[]>;
+	textWords: number;
+	commentaryWords: number;
+	// Links written inside the block, which Obsidian itself doesn't index
+	links: IndexedLink[];
+	// Passages the block's text sections are transcluded from
+	sources: { linkpath: string; subpath: string; line: number }[];
+	doc: CommentaryDocument;
+}
+
+// Maps a definition's type keyword (if any) to the type it renders as
+export type FootnoteTypeResolver = (keyword?: string) => string;
+
+export function countWords(text: string): number {
+	return text.split(/\s+/).filter((word) => word.length > 0).length;
+}
+
+export function indexNote(
+	path: string,
+	content: string,
+	resolveType: FootnoteTypeResolver
+): IndexedBlock[] {
+	return findCommentaryBlocks(content).map((block, index) => {
+		const doc = parseCommentary(block.source);
+		const footnotes: Record<string, IndexedFootnote[]> = {};
+
+		doc.definitions.forEach((def) => {
+			const type = resolveType(def.typeKeyword);
+			(footnotes[type] = footnotes[type] || []).push({
+				label: def.label,
+				level: getLevel(doc, def),
+				line: block.startLine + 1 + def.line,
+				content: def.typeBody,
+			});
+		});
+
+		return {
+			path,
+			index,
+			startLine: block.startLine,
+			endLine: block.endLine,
+			blockRef: block.blockRef,
+			metadata: doc.metadata,
+			footnotes,
+			textWords: countWords(getSectionText(doc, "text")),
+			commentaryWords: countWords(getSectionText(doc, "commentary")),
+			links: findLinks(doc).map((link) => ({
+				linkpath: link.linkpath,
+				subpath: link.subpath,
+				embed: link.embed,
+				line: block.startLine + 1 + link.line,
+				kind: doc.sections[link.section].kind,
+				context: link.context,
+			})),
+			sources: getTextSources(doc).map((source) => ({
+				linkpath: source.linkpath,
+				subpath: source.subpath,
+				line: block.startLine + 1 + source.line,
+			})),
+			doc,
+		};
+	});
+}
+
+// Name a text source link resolves by: its last path segment, or the note's
+// own name for links within the note. Obsidian matches names case-insensitively.
+function sourceName(linkpath: string, path: string): string {
+	const name = (linkpath || path).split("/").pop() || "";
+	return name.replace(/\.md$/i, "").toLowerCase();
+}
+
+export class CommentaryIndex {
+	// Notes without commentary blocks are not kept
+	notes: Map<string, IndexedBlock[]> = new Map();
+	// Blocks by the names of the notes their text sources link to
+	sourceNames: Map<string, Set<IndexedBlock>> = new Map();
+	listeners: Set<(path: string) => void> = new Set();
+	resolveType: FootnoteTypeResolver;
+
+	constructor(resolveType: FootnoteTypeResolver) {
+		this.resolveType = resolveType;
+	}
+
+	update(path: string, content: string) {
+		const blocks = indexNote(path, content, this.resolveType);
+		const had = this.notes.has(path);
+		this.removeSources(this.getNote(path));
+		if (blocks.length > 0) {
+			this.notes.set(path, blocks);
+			this.addSources(blocks);
+		} else {
+			this.notes.delete(path);
+		}
+		if (had || blocks.length > 0) this.notify(path);
+	}
+
+	remove(path: string) {
+		this.removeSources(this.getNote(path));
+		if (this.notes.delete(path)) this.notify(path);
+	}
+
+	rename(oldPath: string, newPath: string) {
+		const blocks = this.notes.get(oldPath);
+		if (!blocks) return;
+
+		this.notes.delete(oldPath);
+		// Links within the note are keyed by its name
+		this.removeSources(blocks);
+		blocks.forEach((block) => (block.path = newPath));
+		this.addSources(blocks);
+		this.notes.set(newPath, blocks);
+		this.notify(newPath);
+	}
+
+	clear() {
+		this.notes.clear();
+		this.sourceNames.clear();
+	}
+
+	addSources(blocks: IndexedBlock[]) {
+		blocks.forEach((block) =>
+			block.sources.forEach((source) => {
+				const name = sourceName(source.linkpath, block.path);
+				const named = this.sourceNames.get(name) || new Set();
+				this.sourceNames.set(name, named.add(block));
+			})
+		);
+	}
+
+	removeSources(blocks: IndexedBlock[]) {
+		blocks.forEach((block) =>
+			block.sources.forEach((source) => {
+				const name = sourceName(source.linkpath, block.path);
+				const named = this.sourceNames.get(name);
+				if (!named) return;
+				named.delete(block);
+				if (named.size === 0) this.sourceNames.delete(name);
+			})
+		);
+	}
+
+	getNote(path: string): IndexedBlock[] {
+		return this.notes.get(path) || [];
+	}
+
+	// Blocks of every note, notes in path order
+	getBlocks(): IndexedBlock[] {
+		const blocks: IndexedBlock[] = [];
+		Array.from(this.notes.keys())
+			.sort()
+			.forEach((path) => blocks.push(...this.getNote(path)));
+		return blocks;
+	}
+
+	// Blocks with a text source that may be the note at the path. Only the
+	// note names are compared; the caller resolves the links themselves.
+	getBlocksQuoting(path: string): IndexedBlock[] {
+		const named = this.sourceNames.get(sourceName("", path));
+		return Array.from(named || []).sort((a, b) =>
+			a.path === b.path ? a.index - b.index : a.path < b.path ? -1 : 1
+		);
+	}
+
+	getFootnotesOfType(
+		type: string
+	): { block: IndexedBlock; footnote: IndexedFootnote }[] {
+		const found: { block: IndexedBlock; footnote: IndexedFootnote }[] = [];
+		this.getBlocks().forEach((block) => {
+			(block.footnotes[type] || []).forEach((footnote) =>
+				found.push({ block, footnote })
+			);
+		});
+		return found;
+	}
+
+	// Called with the note path whenever a note's blocks change, or with an
+	// empty path after the plugin rebuilds the whole index
+	onChange(listener: (path: string) => void): () => void {
+		this.listeners.add(listener);
+		return () => this.listeners.delete(listener);
+	}
+
+	notify(path: string) {
+		this.listeners.forEach((listener) => listener(path));
+	}
+}
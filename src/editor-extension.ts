@@ -0,0 +1,362 @@
+// CodeMirror 6 support for commentary blocks in the editor: section markers,
+// footnotes, anchors and lemmas are styled, every marker gets a badge,
+// sections fold from their marker line, and hovering a footnote reference
+// previews its definition.
+
+import { foldService } from "@codemirror/language";
+import {
+	EditorState,
+	Extension,
+	RangeSetBuilder,
+	StateField,
+} from "@codemirror/state";
+import {
+	Decoration,
+	DecorationSet,
+	EditorView,
+	ViewPlugin,
+	ViewUpdate,
+	WidgetType,
+	hoverTooltip,
+} from "@codemirror/view";
+import { BlockIndex, LineChange } from "./block-index";
+import {
+	CommentaryBlockLocation,
+	FootnoteDefinition,
+	MAX_LAYER,
+	NoteLines,
+	SectionKind,
+	getDefinition,
+	matchSectionMarker,
+	tokenizeLine,
+} from "./parser";
+
+// Fills a hover preview; rendering Markdown is left to the plugin, which
+// finds the editor's note from its state. The returned function frees what
+// was rendered once the preview closes.
+export type FootnotePreviewRenderer = (
+	container: HTMLElement,
+	label: string,
+	definition: FootnoteDefinition | undefined,
+	state: EditorState
+) => () => void;
+
+const SECTION_LABELS: Record<SectionKind, string> = {
+	metadata: "Metadata",
+	text: "Text",
+	commentary: "Commentary",
+	footnote: "Footnotes",
+	apparatus: "Apparatus",
+};
+
+interface EditorSection {
+	kind: SectionKind;
+	level: number;
+	// Document line numbers (1-based, as CodeMirror counts them)
+	markerLine: number;
+	lastLine: number;
+	// Position among the block's sections of the same kind and level
+	ordinal: number;
+}
+
+interface EditorBlock {
+	location: CommentaryBlockLocation;
+	// Lines between the fences
+	firstLine: number;
+	lastLine: number;
+	sections: EditorSection[];
+	// Length of the callout or blockquote markers on each line
+	margins: number[];
+}
+
+function noteLines(state: EditorState): NoteLines {
+	const doc = state.doc;
+	return {
+		count: doc.lines,
+		line: (i) => doc.line(i + 1).text,
+		offset: (i) => (i < doc.lines ? doc.line(i + 1).from : doc.length),
+	};
+}
+
+// Blocks of the whole note, updated from each change rather than rescanned
+const blockIndexField = StateField.define<BlockIndex>({
+	create: (state) => BlockIndex.build(noteLines(state)),
+	update: (index, tr) => {
+		if (!tr.docChanged) return index;
+
+		// One line range covering every change, in 0-based note lines
+		let change: LineChange | undefined;
+		tr.changes.iterChangedRanges((fromA, toA, fromB, toB) => {
+			const from = tr.startState.doc.lineAt(fromA).number - 1;
+			const toOld = tr.startState.doc.lineAt(toA).number - 1;
+			const toNew = tr.state.doc.lineAt(toB).number - 1;
+			change = change
+				? { from: Math.min(change.from, from), toOld, toNew }
+				: { from, toOld, toNew };
+		});
+		if (!change) return index;
+
+		return index.update(noteLines(tr.state), change, (pos) =>
+			tr.changes.mapPos(pos)
+		);
+	},
+});
+
+// Section layout of each block, kept while the block is unchanged
+const editorBlocks: WeakMap<CommentaryBlockLocation, EditorBlock> =
+	new WeakMap();
+
+function findBlocks(state: EditorState): EditorBlock[] {
+	return state.field(blockIndexField).blocks.map((block) => {
+		let editorBlock = editorBlocks.get(block);
+		if (!editorBlock) {
+			editorBlock = toEditorBlock(block);
+			editorBlocks.set(block, editorBlock);
+		}
+		return editorBlock;
+	});
+}
+
+function toEditorBlock(block: CommentaryBlockLocation): EditorBlock {
+	// Fence lines are 0-based in the note; CodeMirror lines are 1-based
+	const firstLine = block.startLine + 2;
+	const lastLine = block.endLine;
+	const sections: EditorSection[] = [];
+	const counts: Map<string, number> = new Map();
+	const lines = block.source.split("\n");
+
+	for (let line = firstLine; line <= lastLine; line++) {
+		const match = matchSectionMarker(lines[line - firstLine] ?? "");
+		if (!match) continue;
+
+		const previous = sections[sections.length - 1];
+		if (previous) previous.lastLine = line - 1;
+
+		const key = `${match.kind}:${match.level}`;
+		const ordinal = (counts.get(key) || 0) + 1;
+		counts.set(key, ordinal);
+		sections.push({ ...match, markerLine: line, lastLine, ordinal });
+	}
+
+	return {
+		location: block,
+		firstLine,
+		lastLine,
+		sections,
+		margins: block.prefixes.map((prefix) => prefix.length),
+	};
+}
+
+function blockAt(
+	blocks: EditorBlock[],
+	line: number
+): EditorBlock | undefined {
+	return blocks.find(
+		(block) => line >= block.firstLine && line <= block.lastLine
+	);
+}
+
+function sectionAt(
+	blocks: EditorBlock[],
+	line: number
+): EditorSection | undefined {
+	return blockAt(blocks, line)?.sections.find(
+		(section) => line >= section.markerLine && line <= section.lastLine
+	);
+}
+
+// Length of the callout or blockquote markers on a block line
+function marginAt(blocks: EditorBlock[], line: number): number {
+	const block = blockAt(blocks, line);
+	return block ? block.margins[line - block.firstLine] ?? 0 : 0;
+}
+
+class SectionBadge extends WidgetType {
+	constructor(readonly label: string, readonly kind: SectionKind) {
+		super();
+	}
+
+	eq(other: SectionBadge): boolean {
+		return other.label === this.label && other.kind === this.kind;
+	}
+
+	toDOM(): HTMLElement {
+		const badge = document.createElement("span");
+		badge.className = `cm-commentary-badge cm-commentary-badge-${this.kind}`;
+		badge.textContent = this.label;
+		return badge;
+	}
+
+	ignoreEvent(): boolean {
+		return true;
+	}
+}
+
+function badgeLabel(section: EditorSection, blocks: EditorBlock[]): string {
+	let label = SECTION_LABELS[section.kind];
+	if (section.level > 1) label += ` · layer ${section.level}`;
+
+	// Repeated text/commentary pairs are easier to follow numbered
+	const block = blockAt(blocks, section.markerLine);
+	const repeated = block?.sections.some(
+		(other) =>
+			other !== section &&
+			other.kind === section.kind &&
+			other.level === section.level
+	);
+	if (repeated) label += ` ${section.ordinal}`;
+
+	const lines = section.lastLine - section.markerLine;
+	return `${label} · ${lines} line${lines === 1 ? "" : "s"}`;
+}
+
+function buildDecorations(view: EditorView): DecorationSet {
+	const builder = new RangeSetBuilder<Decoration>();
+	const blocks = findBlocks(view.state);
+	if (blocks.length === 0) return builder.finish();
+
+	for (const { from, to } of view.visibleRanges) {
+		let pos = from;
+		while (pos <= to) {
+			const line = view.state.doc.lineAt(pos);
+			const section = sectionAt(blocks, line.number);
+
+			if (section && line.number === section.markerLine) {
+				builder.add(
+					line.from,
+					line.from,
+					Decoration.line({
+						class: `cm-commentary-marker cm-commentary-marker-${section.kind}`,
+					})
+				);
+				builder.add(
+					line.to,
+					line.to,
+					Decoration.widget({
+						widget: new SectionBadge(
+							badgeLabel(section, blocks),
+							section.kind
+						),
+						side: 1,
+					})
+				);
+			} else if (section) {
+				const margin = marginAt(blocks, line.number);
+				builder.add(
+					line.from,
+					line.from,
+					Decoration.line({
+						class: `cm-commentary-section cm-commentary-section-${section.kind}`,
+						attributes: {
+							"data-layer": String(Math.min(section.level, MAX_LAYER)),
+						},
+					})
+				);
+				const text = line.text.slice(margin);
+				tokenizeLine(text, section.kind).forEach((token) => {
+					builder.add(
+						line.from + margin + token.from,
+						line.from + margin + token.to,
+						Decoration.mark({
+							class: `cm-commentary-${token.kind}`,
+						})
+					);
+				});
+			}
+
+			pos = line.to + 1;
+		}
+	}
+
+	return builder.finish();
+}
+
+const highlighter = ViewPlugin.fromClass(
+	class {
+		decorations: DecorationSet;
+
+		constructor(view: EditorView) {
+			this.decorations = buildDecorations(view);
+		}
+
+		update(update: ViewUpdate) {
+			if (update.docChanged || update.viewportChanged) {
+				this.decorations = buildDecorations(update.view);
+			}
+		}
+	},
+	{ decorations: (plugin) => plugin.decorations }
+);
+
+// A section folds from the end of its marker line to its last line
+const sectionFolding = foldService.of((state, lineStart) => {
+	const line = state.doc.lineAt(lineStart);
+	const section = sectionAt(findBlocks(state), line.number);
+	if (!section || section.markerLine !== line.number) return null;
+	if (section.lastLine <= section.markerLine) return null;
+
+	return { from: line.to, to: state.doc.line(section.lastLine).to };
+});
+
+function footnotePreview(render: FootnotePreviewRenderer): Extension {
+	return hoverTooltip((view, pos) => {
+		const line = view.state.doc.lineAt(pos);
+		const blocks = findBlocks(view.state);
+		const block = blockAt(blocks, line.number);
+		const section = sectionAt(blocks, line.number);
+		if (!block || !section || section.markerLine === line.number) {
+			return null;
+		}
+
+		const margin = marginAt(blocks, line.number);
+		const text = line.text.slice(margin);
+		const ch = pos - line.from - margin;
+		const token = tokenizeLine(text, section.kind).find(
+			(candidate) =>
+				candidate.kind === "reference" &&
+				ch >= candidate.from &&
+				ch <= candidate.to
+		);
+		if (!token) return null;
+
+		// `$[label]` without the brackets
+		const label = text.slice(token.from + 2, token.to - 1);
+		const definition = getDefinition(
+			view.state.field(blockIndexField).getDoc(block.location),
+			label,
+			Math.max(1, section.level)
+		);
+
+		return {
+			pos: line.from + margin + token.from,
+			end: line.from + margin + token.to,
+			above: true,
+			create: () => {
+				const dom = document.createElement("div");
+				dom.className = "commentary-footnote-popover";
+				const destroy = render(dom, label, definition, view.state);
+				return { dom, destroy };
+			},
+		};
+	});
+}
+
+// The block index on its own, for commands when highlighting is off
+export function commentaryBlockIndex(): Extension {
+	return blockIndexField;
+}
+
+export function getBlockIndex(state: EditorState): BlockIndex | undefined {
+	return state.field(blockIndexField, false);
+}
+
+// Footnote previews on hover, which don't depend on highlighting
+export function commentaryFootnotePreview(
+	renderFootnote: FootnotePreviewRenderer
+): Extension {
+	return [blockIndexField, footnotePreview(renderFootnote)];
+}
+
+export function commentaryEditorExtension(): Extension {
+	return [blockIndexField, highlighter, sectionFolding];
+}
@@ -0,0 +1,311 @@
+// Edits to single footnotes of a block: deleting, retyping, merging and
+// moving them, and converting between footnotes and inline parenthetical
+// commentary. Like the linter, this works on block source offsets and leaves
+// applying the edits, in the editor or the file, to the caller.
+
+import {
+	CommentaryDocument,
+	FootnoteDefinition,
+	FootnoteReference,
+	SourceRange,
+	TextEdit,
+	deleteLines,
+	getLayer,
+	getLevel,
+	sectionMarker,
+} from "./parser";
+
+export interface FootnoteOccurrences {
+	// The rendered definition is the last one with the label
+	definition?: FootnoteDefinition;
+	definitions: FootnoteDefinition[];
+	references: FootnoteReference[];
+}
+
+// Definitions and references of one footnote series entry. Text references
+// belong to the main commentary's series.
+export function findFootnote(
+	doc: CommentaryDocument,
+	label: string,
+	level: number
+): FootnoteOccurrences {
+	const definitions = doc.definitions.filter(
+		(def) => def.label === label && getLevel(doc, def) === level
+	);
+	const references = doc.references.filter(
+		(ref) =>
+			ref.label === label && Math.max(1, getLevel(doc, ref)) === level
+	);
+	return {
+		definition: definitions[definitions.length - 1],
+		definitions,
+		references,
+	};
+}
+
+// Remove every reference to the footnote and its definition
+export function deleteFootnote(
+	doc: CommentaryDocument,
+	source: string,
+	label: string,
+	level: number
+): TextEdit[] {
+	const { definitions, references } = findFootnote(doc, label, level);
+	const edits: TextEdit[] = definitions.map((def) =>
+		deleteLines(source, def.range)
+	);
+	outside(edits, references).forEach((ref) =>
+		edits.push(deleteReference(source, ref))
+	);
+	return edits;
+}
+
+// Replace the footnote's first reference with its content in parentheses,
+// `word $[1].` becoming `word (content).`, and remove the definition and any
+// other references. The type keyword is dropped.
+export function inlineFootnote(
+	doc: CommentaryDocument,
+	source: string,
+	label: string,
+	level: number
+): TextEdit[] {
+	const { definition, definitions, references } = findFootnote(
+		doc,
+		label,
+		level
+	);
+	if (!definition || !definition.typeBody) return [];
+
+	const edits: TextEdit[] = definitions.map((def) =>
+		deleteLines(source, def.range)
+	);
+	const [first, ...rest] = outside(edits, references);
+	if (!first) return [];
+
+	const before = source.charAt(first.range.start - 1);
+	const space = before === "" || /\s/.test(before) ? "" : " ";
+	const content = definition.typeBody.split(/\s*\n\s*/).join(" ");
+	edits.push({ range: first.range, text: `${space}(${content})` });
+	rest.forEach((ref) => edits.push(deleteReference(source, ref)));
+	return edits;
+}
+
+// The innermost parenthesised span around an offset, brackets included.
+// Parentheticals don't span lines.
+export function findParenthetical(
+	source: string,
+	offset: number
+): SourceRange | null {
+	const lineStart = source.lastIndexOf("\n", offset - 1) + 1;
+	const newline = source.indexOf("\n", offset);
+	const lineEnd = newline === -1 ? source.length : newline;
+
+	let start = source.charAt(offset) === "(" ? offset : -1;
+	for (let i = offset - 1, depth = 0; start < 0 && i >= lineStart; i--) {
+		const char = source.charAt(i);
+		if (char === ")") depth++;
+		else if (char === "(" && depth-- === 0) start = i;
+	}
+	if (start < 0) return null;
+
+	for (let i = start + 1, depth = 0; i < lineEnd; i++) {
+		const char = source.charAt(i);
+		if (char === "(") depth++;
+		else if (char === ")" && depth-- === 0) {
+			return i >= offset ? { start, end: i + 1 } : null;
+		}
+	}
+	return null;
+}
+
+// Turn a parenthetical into a reference to a new footnote holding its
+// content. The definition goes at the end of the layer's footnotes.
+export function footnoteFromParenthetical(
+	doc: CommentaryDocument,
+	source: string,
+	range: SourceRange,
+	label: string,
+	level: number,
+	keyword?: string
+): TextEdit[] {
+	const content = source.slice(range.start + 1, range.end - 1).trim();
+	if (!content) return [];
+
+	const definition = keyword
+		? `$[${label}]: ${keyword}:${content}`
+		: `$[${label}]: ${content}`;
+	return [
+		{ range, text: `$[${label}]` },
+		addDefinition(doc, source, level, definition),
+	];
+}
+
+// Fold one footnote into another: its content is appended to the other's
+// definition and its references point to the other footnote, or go away
+// where they'd sit right next to a reference to it or inside its definition
+export function mergeFootnotes(
+	doc: CommentaryDocument,
+	source: string,
+	label: string,
+	into: string,
+	level: number
+): TextEdit[] {
+	const merged = findFootnote(doc, label, level);
+	const targets = findFootnote(doc, into, level).definitions;
+	const target = targets[targets.length - 1];
+	if (!merged.definition || !target || label === into) return [];
+
+	const edits: TextEdit[] = merged.definitions.map((def) =>
+		deleteLines(source, def.range)
+	);
+	if (merged.definition.typeBody) {
+		const end = target.range.end;
+		edits.push({
+			range: { start: end, end },
+			text: `\n${merged.definition.typeBody}`,
+		});
+	}
+
+	const marker = `$[${into}]`;
+	outside(edits, merged.references).forEach((ref) => {
+		// Retargeted, these would make the footnote cite itself
+		const selfReference = targets.some(
+			(def) =>
+				ref.range.start >= def.range.start &&
+				ref.range.end <= def.range.end
+		);
+		const adjacent =
+			source
+				.slice(0, ref.range.start)
+				.replace(/[ \t]*$/, "")
+				.endsWith(marker) ||
+			source
+				.slice(ref.range.end)
+				.replace(/^[ \t]*/, "")
+				.startsWith(marker);
+		edits.push(
+			selfReference || adjacent
+				? deleteReference(source, ref)
+				: { range: ref.range, text: marker }
+		);
+	});
+
+	return edits;
+}
+
+// Move the footnote's first reference to another offset of the block
+export function moveFootnote(
+	doc: CommentaryDocument,
+	source: string,
+	label: string,
+	level: number,
+	offset: number
+): TextEdit[] {
+	const { definitions, references } = findFootnote(doc, label, level);
+	const ref = outside(
+		definitions.map((def) => deleteLines(source, def.range)),
+		references
+	)[0];
+	if (!ref) return [];
+
+	const removal = deleteReference(source, ref);
+	if (offset >= removal.range.start && offset <= removal.range.end) {
+		return [];
+	}
+
+	const before = source.charAt(offset - 1);
+	const after = source.charAt(offset);
+	const space = before === "" || /\s/.test(before) ? "" : " ";
+	const trailing = /[\p{L}\p{N}]/u.test(after) ? " " : "";
+	return [
+		removal,
+		{
+			range: { start: offset, end: offset },
+			text: `${space}$[${label}]${trailing}`,
+		},
+	];
+}
+
+// Set the type keyword of the footnote's definition, adding one if it has
+// none. A word before a colon that isn't one of `footnoteTypes`, like the
+// scheme of a URL, is content and stays.
+export function setFootnoteType(
+	doc: CommentaryDocument,
+	source: string,
+	label: string,
+	level: number,
+	keyword: string,
+	footnoteTypes: string[]
+): TextEdit[] {
+	const { definition } = findFootnote(doc, label, level);
+	if (!definition) return [];
+
+	const text = source.slice(definition.range.start, definition.range.end);
+	const prefix = text.match(/^\$\[[^\]]+\]:\s*/);
+	const start = definition.range.start + (prefix ? prefix[0].length : 0);
+
+	if (
+		definition.typeKeyword &&
+		footnoteTypes.includes(definition.typeKeyword)
+	) {
+		const end = start + definition.typeKeyword.length;
+		return [{ range: { start, end }, text: keyword }];
+	}
+	return [{ range: { start, end: start }, text: `${keyword}:` }];
+}
+
+// Insert a definition after the last one in the layer's footnote sections,
+// starting a footnote section at the end of the block if there is none
+function addDefinition(
+	doc: CommentaryDocument,
+	source: string,
+	level: number,
+	definition: string
+): TextEdit {
+	const sections = getLayer(doc, level)?.footnote ?? [];
+	if (sections.length === 0) {
+		const end = source.length;
+		const separator = source === "" || source.endsWith("\n") ? "" : "\n";
+		return {
+			range: { start: end, end },
+			text: `${separator}\n${sectionMarker("footnote", level)}\n${definition}`,
+		};
+	}
+
+	const section = doc.sections[sections[sections.length - 1]];
+	const body = section.body.replace(/\s+$/, "");
+	const at = section.bodyRange.start + body.length;
+	return {
+		range: { start: at, end: at },
+		text:
+			body === "" && source.charAt(at - 1) === "\n"
+				? `${definition}\n`
+				: `\n${definition}`,
+	};
+}
+
+// References not already removed with a deleted definition
+function outside(
+	edits: TextEdit[],
+	references: FootnoteReference[]
+): FootnoteReference[] {
+	return references.filter(
+		(ref) =>
+			!edits.some(
+				(edit) =>
+					ref.range.start >= edit.range.start &&
+					ref.range.start < edit.range.end
+			)
+	);
+}
+
+// A space before a reference goes with it, so `word $[1].` becomes `word.`
+function deleteReference(source: string, ref: FootnoteReference): TextEdit {
+	const before = source.charAt(ref.range.start - 1);
+	const after = source.charAt(ref.range.end);
+	const start =
+		before === " " && (after === "" || /[\s.,;:!?)\]]/.test(after))
+			? ref.range.start - 1
+			: ref.range.start;
+	return { range: { start, end: ref.range.end }, text: "" };
+}
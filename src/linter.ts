@@ -0,0 +1,338 @@
+// Lint rules for commentary blocks. Like the parser, this module has no
+// Obsidian dependencies: it turns a CommentaryDocument into diagnostics whose
+// positions and fixes are expressed in block source lines and offsets.
+
+import {
+	CommentaryDocument,
+	MAX_LAYER,
+	SECTION_KINDS,
+	TextEdit,
+	deleteLines,
+	getApparatusEntry,
+	getLevel,
+	matchSectionMarker,
+	sectionMarker,
+} from "./parser";
+
+export type DiagnosticSeverity = "error" | "warning" | "info";
+
+export interface DiagnosticFix {
+	label: string;
+	edits: TextEdit[];
+}
+
+export interface CommentaryDiagnostic {
+	code: string;
+	severity: DiagnosticSeverity;
+	message: string;
+	// Line within the block source
+	line: number;
+	fix?: DiagnosticFix;
+}
+
+const MARKER_LIKE_PATTERN = /^\s*-{2,}\s*(\w+(?:-\w+)*)\s*-{2,}\s*$/;
+// Sections that may appear once per block (per layer for footnotes)
+const SINGLE_SECTIONS = ["metadata", "footnote", "apparatus"];
+
+export function lintCommentary(
+	doc: CommentaryDocument,
+	source: string,
+	footnoteTypes: string[]
+): CommentaryDiagnostic[] {
+	const diagnostics: CommentaryDiagnostic[] = [];
+
+	lintFootnotes(doc, source, footnoteTypes, diagnostics);
+	lintSections(doc, source, diagnostics);
+	lintAnchors(doc, diagnostics);
+	lintApparatus(doc, source, diagnostics);
+
+	return diagnostics.sort((a, b) => a.line - b.line);
+}
+
+function lintFootnotes(
+	doc: CommentaryDocument,
+	source: string,
+	footnoteTypes: string[],
+	diagnostics: CommentaryDiagnostic[]
+) {
+	const key = (label: string, level: number) => `${level}:${label}`;
+	const defined: Map<string, number> = new Map();
+	const referenced: Set<string> = new Set();
+
+	doc.definitions.forEach((def) => {
+		const k = key(def.label, getLevel(doc, def));
+		defined.set(k, (defined.get(k) || 0) + 1);
+	});
+
+	// Each footnote series belongs to one layer; text references count
+	// towards the main commentary
+	doc.references.forEach((ref) => {
+		const level = Math.max(1, getLevel(doc, ref));
+		const k = key(ref.label, level);
+		if (referenced.has(k)) return;
+		referenced.add(k);
+
+		if (!defined.has(k)) {
+			diagnostics.push({
+				code: "missing-definition",
+				severity: "error",
+				message: `Footnote $[${ref.label}] has no definition`,
+				line: ref.line,
+				fix: {
+					label: "Create stub definition",
+					edits: [stubDefinition(doc, source, ref.label, level)],
+				},
+			});
+		}
+	});
+
+	const seen: Map<string, number> = new Map();
+	doc.definitions.forEach((def) => {
+		const k = key(def.label, getLevel(doc, def));
+		const occurrence = (seen.get(k) || 0) + 1;
+		seen.set(k, occurrence);
+
+		if (!referenced.has(k)) {
+			diagnostics.push({
+				code: "unused-definition",
+				severity: "warning",
+				message: `Footnote $[${def.label}] is defined but never referenced`,
+				line: def.line,
+				fix: {
+					label: "Delete definition",
+					edits: [deleteLines(source, def.range)],
+				},
+			});
+		}
+
+		// The last definition is the one that renders
+		const count = defined.get(k) || 0;
+		if (occurrence < count) {
+			diagnostics.push({
+				code: "duplicate-definition",
+				severity: "error",
+				message: `Footnote $[${def.label}] is defined ${count} times; only the last one is used`,
+				line: def.line,
+				fix: {
+					label: "Delete this duplicate",
+					edits: [deleteLines(source, def.range)],
+				},
+			});
+		}
+
+		if (def.typeKeyword && !footnoteTypes.includes(def.typeKeyword)) {
+			const start = source.indexOf(def.typeKeyword, def.range.start);
+			diagnostics.push({
+				code: "unknown-type",
+				severity: "warning",
+				message: `Unknown footnote type "${def.typeKeyword}"; it is rendered as a note`,
+				line: def.line,
+				// The keyword may be part of the content, so it is kept
+				fix: {
+					label: "Mark as note",
+					edits: [{ range: { start, end: start }, text: "note:" }],
+				},
+			});
+		}
+	});
+}
+
+function lintSections(
+	doc: CommentaryDocument,
+	source: string,
+	diagnostics: CommentaryDiagnostic[]
+) {
+	// Lines that look like section markers but are not recognised
+	const lines = source.split("\n");
+	let offset = 0;
+	lines.forEach((line, i) => {
+		const markerMatch = line.match(MARKER_LIKE_PATTERN);
+		if (markerMatch && !matchSectionMarker(line)) {
+			const suggestion = suggestMarker(markerMatch[1]);
+			const diagnostic: CommentaryDiagnostic = {
+				code: "malformed-marker",
+				severity: "error",
+				message: `"${line.trim()}" is not a section marker`,
+				line: i,
+			};
+			if (suggestion) {
+				const range = { start: offset, end: offset + line.length };
+				diagnostic.fix = {
+					label: `Replace with ${suggestion}`,
+					edits: [{ range, text: suggestion }],
+				};
+			}
+			diagnostics.push(diagnostic);
+		}
+		offset += line.length + 1;
+	});
+
+	// Metadata, footnote and apparatus sections should appear only once
+	const seen: Set<string> = new Set();
+	doc.sections.forEach((section, index) => {
+		if (!SINGLE_SECTIONS.includes(section.kind)) return;
+
+		const k = `${section.kind}:${section.level}`;
+		if (!seen.has(k)) {
+			seen.add(k);
+			return;
+		}
+
+		// Directly repeated markers can simply be merged
+		const previous = doc.sections[index - 1];
+		const mergeable =
+			previous &&
+			previous.kind === section.kind &&
+			previous.level === section.level;
+
+		const diagnostic: CommentaryDiagnostic = {
+			code: "duplicate-section",
+			severity: "warning",
+			message: `Duplicate ${section.marker.trim()} section`,
+			line: section.line,
+		};
+		if (mergeable) {
+			const range = {
+				start: section.range.start,
+				end: section.bodyRange.start,
+			};
+			diagnostic.fix = {
+				label: "Merge into previous section",
+				edits: [{ range, text: "" }],
+			};
+		}
+		diagnostics.push(diagnostic);
+	});
+}
+
+function lintAnchors(
+	doc: CommentaryDocument,
+	diagnostics: CommentaryDiagnostic[]
+) {
+	// References point at passages one level up
+	const passages = new Set(
+		doc.anchors.map((anchor) => `${getLevel(doc, anchor)}:${anchor.num}`)
+	);
+	doc.anchorRefs.forEach((ref) => {
+		const level = getLevel(doc, ref) - 1;
+		if (!passages.has(`${level}:${ref.num}`)) {
+			diagnostics.push({
+				code: "unknown-anchor",
+				severity: "warning",
+				message: `@[${ref.num}] points to a passage that is not marked ${
+					level === 0 ? "in the text" : `with @@[${ref.num}]`
+				}`,
+				line: ref.line,
+			});
+		}
+	});
+}
+
+function lintApparatus(
+	doc: CommentaryDocument,
+	source: string,
+	diagnostics: CommentaryDiagnostic[]
+) {
+	const used = new Set(doc.lemmas.map((marker) => marker.num));
+
+	doc.lemmas.forEach((marker) => {
+		const entry = getApparatusEntry(doc, marker.num);
+		if (!entry) {
+			diagnostics.push({
+				code: "missing-apparatus-entry",
+				severity: "error",
+				message: `&[${marker.num}] has no apparatus entry`,
+				line: marker.line,
+			});
+		} else if (entry.lemma && !marker.lemmaRange) {
+			diagnostics.push({
+				code: "lemma-not-found",
+				severity: "warning",
+				message: `Lemma "${entry.lemma}" does not appear right before &[${marker.num}]`,
+				line: marker.line,
+			});
+		}
+	});
+
+	doc.apparatus.forEach((entry) => {
+		if (!used.has(entry.num)) {
+			diagnostics.push({
+				code: "unused-apparatus-entry",
+				severity: "warning",
+				message: `Apparatus entry &[${entry.num}] is not anchored in the text`,
+				line: entry.line,
+				fix: {
+					label: "Delete entry",
+					edits: [deleteLines(source, entry.range)],
+				},
+			});
+		}
+	});
+}
+
+// Insert `$[n]: ` at the end of the layer's footnote section, creating the
+// section if needed
+function stubDefinition(
+	doc: CommentaryDocument,
+	source: string,
+	label: string,
+	level: number
+): TextEdit {
+	const footnotes = doc.sections.filter(
+		(section) => section.kind === "footnote" && section.level === level
+	);
+	const last = footnotes[footnotes.length - 1];
+	const definition = `$[${label}]: `;
+
+	if (last) {
+		const body = last.body.replace(/\s+$/, "");
+		const end = last.bodyRange.start + body.length;
+		return {
+			range: { start: end, end },
+			text: body.length > 0 ? `\n${definition}` : definition,
+		};
+	}
+
+	const end = source.replace(/\s+$/, "").length;
+	return {
+		range: { start: end, end },
+		text: `\n\n${sectionMarker("footnote", level)}\n${definition}`,
+	};
+}
+
+// Closest real marker to a misspelled one, if any is near enough
+function suggestMarker(name: string): string | null {
+	const layered = name.toLowerCase().match(/^(.*?)(?:-(\d+))?$/);
+	const base = layered ? layered[1] : name.toLowerCase();
+	const level = layered && layered[2] ? parseInt(layered[2]) : 1;
+	if (level < 1 || level > MAX_LAYER) return null;
+
+	let best: string | null = null;
+	let bestDistance = 3;
+	for (const kind of SECTION_KINDS) {
+		const distance = editDistance(base, kind);
+		if (distance < bestDistance) {
+			bestDistance = distance;
+			best = sectionMarker(kind, level);
+		}
+	}
+	return best;
+}
+
+function editDistance(a: string, b: string): number {
+	const row = Array.from({ length: b.length + 1 }, (_, j) => j);
+	for (let i = 1; i <= a.length; i++) {
+		let previous = row[0];
+		row[0] = i;
+		for (let j = 1; j <= b.length; j++) {
+			const current = row[j];
+			row[j] = Math.min(
+				row[j] + 1,
+				row[j - 1] + 1,
+				previous + (a[i - 1] === b[j - 1] ? 0 : 1)
+			);
+			previous = current;
+		}
+	}
+	return row[b.length];
+}
@@ -0,0 +1,1259 @@
+// Parser and serializer for the commentary block format.
+//
+// This module has no Obsidian dependencies so the section and footnote rules
+// live in one place and can be exercised headlessly. Everything that reads a
+// commentary block (renderers, editor commands, exporters) consumes the
+// CommentaryDocument produced here instead of re-scanning the raw text.
+
+export type SectionKind =
+	| "metadata"
+	| "text"
+	| "commentary"
+	| "footnote"
+	| "apparatus";
+
+export const SECTION_KINDS: SectionKind[] = [
+	"metadata",
+	"text",
+	"commentary",
+	"footnote",
+	"apparatus",
+];
+
+// Commentary and footnote sections can be layered: `---commentary-2---`
+// holds a super-commentary (hashiya) on the commentary, with its own
+// `---footnote-2---` series, and `---commentary-3---` comments on that.
+export const MAX_LAYER = 3;
+
+export interface SourceRange {
+	start: number;
+	end: number;
+}
+
+export interface CommentarySection {
+	kind: SectionKind;
+	// Marker line exactly as written, including its line break
+	marker: string;
+	// Raw text following the marker line, up to the next marker
+	body: string;
+	// Offsets of the whole section (marker included) within the block source
+	range: SourceRange;
+	bodyRange: SourceRange;
+	// Line of the marker and the line after the section (exclusive)
+	line: number;
+	endLine: number;
+	// Nesting depth: 0 for text, metadata and apparatus, 1 for the main
+	// commentary and its footnotes, 2+ for layered super-commentary
+	level: number;
+}
+
+// One tier of commentary: its commentary sections and its own footnote
+// series. Layer n comments on passages of layer n - 1 (the text for n = 1).
+export interface CommentaryLayer {
+	level: number;
+	commentary: number[];
+	footnote: number[];
+	child?: CommentaryLayer;
+}
+
+export interface FootnoteDefinition {
+	// `7` or `ibn-kathir-tafsir`; numeric and named labels share a series
+	label: string;
+	// Word before the first colon, e.g. "warning" in `$[1]: warning:Text`,
+	// but not a URL scheme. Whether it names a known footnote type is up to
+	// the caller.
+	typeKeyword?: string;
+	// Text after the type keyword, or the whole content if there is none
+	typeBody: string;
+	// Everything after `$[n]:`, continuation lines included, trimmed
+	content: string;
+	range: SourceRange;
+	line: number;
+	endLine: number;
+	section: number;
+}
+
+// Where an inline marker was found in a section body
+export interface MarkerPosition {
+	range: SourceRange;
+	line: number;
+	ch: number;
+	section: number;
+}
+
+// An inline `@[n]` or `&[n]` style marker
+export interface SourceMarker extends MarkerPosition {
+	num: number;
+}
+
+// `$[n]` or `$[label]`. Named labels render as sequential numbers too.
+export interface FootnoteReference extends MarkerPosition {
+	label: string;
+}
+
+// `@[n]` in a text section starts passage n, which runs until the next
+// anchor or the end of the section. `@[n]` in a commentary section ties the
+// surrounding paragraph to that passage. Inside commentary, `@@[n]` starts
+// passage n for the next layer to comment on.
+export type TextAnchor = SourceMarker;
+export type AnchorReference = SourceMarker;
+
+// `&[n]` in a text section closes the lemma of apparatus entry n; the lemma
+// is the entry's lemma text found immediately before the marker
+export interface LemmaMarker extends SourceMarker {
+	lemmaRange?: SourceRange;
+}
+
+export interface ApparatusReading {
+	// Witness sigla, e.g. ["ب", "ج"] in `ب ج: وقال`
+	sigla: string[];
+	text: string;
+}
+
+// `&[1]: lemma ] ب: reading; ج: other reading`
+export interface ApparatusEntry {
+	num: number;
+	lemma: string;
+	readings: ApparatusReading[];
+	content: string;
+	range: SourceRange;
+	line: number;
+	endLine: number;
+	section: number;
+}
+
+export interface TextEdit {
+	range: SourceRange;
+	text: string;
+}
+
+// A passage of original text and the commentary on it. Blocks may repeat
+// `---text---` / `---commentary---` pairs; each pair becomes a segment.
+// Values are indices into CommentaryDocument.sections.
+export interface CommentarySegment {
+	text?: number;
+	commentary?: number;
+}
+
+export interface CommentaryMetadata {
+	title?: string;
+	tags?: string[];
+	[key: string]: string | string[] | undefined;
+}
+
+export interface CommentaryDocument {
+	// Text before the first section marker
+	preamble: string;
+	sections: CommentarySection[];
+	segments: CommentarySegment[];
+	// Main commentary (level 1) with any super-commentary nested under it
+	layers?: CommentaryLayer;
+	metadata: CommentaryMetadata;
+	definitions: FootnoteDefinition[];
+	references: FootnoteReference[];
+	anchors: TextAnchor[];
+	anchorRefs: AnchorReference[];
+	apparatus: ApparatusEntry[];
+	lemmas: LemmaMarker[];
+	lineCount: number;
+}
+
+const REFERENCE_PATTERN = /\$\[([\p{L}\p{N}_-]+)\]/gu;
+const ANCHOR_PATTERN = /(?<!@)@\[(\d+)\]/g;
+const PASSAGE_PATTERN = /@@\[(\d+)\]/g;
+const LEMMA_PATTERN = /&\[(\d+)\]/g;
+const DEFINITION_PATTERN = /^\$\[([\p{L}\p{N}_-]+)\]:\s*/u;
+const LABEL_PATTERN = /^[\p{L}\p{N}_-]+$/u;
+const BLOCK_ID_PATTERN = /^[A-Za-z0-9-]+$/;
+const BLOCK_REF_PATTERN = /^\^([A-Za-z0-9-]+)\s*$/;
+const FENCE_PATTERN = /^( {0,3})(`{3,}|~{3,})(.*)$/;
+const CLOSING_FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})[ \t]*$/;
+const QUOTE_PATTERN = /^ {0,3}>[ ]?/;
+const APPARATUS_PATTERN = /^&\[(\d+)\]:\s*/;
+const METADATA_PATTERN = /^(\w+):\s*(.+)$/;
+// `https://` starts a URL, not a type
+const TYPE_PATTERN = /^([\w-]+):(?!\/\/)(.*)$/s;
+const SOURCE_PATTERN = /^source:\s*\[\[([^\]|#]*)(#[^\]|]*)?(?:\|[^\]]*)?\]\]$/;
+const WIKILINK_PATTERN = /(!?)\[\[([^\]|]+?)(?:\|[^\]]*)?\]\]/g;
+const MARKDOWN_LINK_PATTERN = /(!?)\[[^\]]*\]\(<?([^)<>\s]+)>?\)/g;
+
+export function matchSectionMarker(
+	line: string
+): { kind: SectionKind; level: number } | null {
+	for (const kind of SECTION_KINDS) {
+		if (line.startsWith(`---${kind}---`)) {
+			return { kind, level: isLayered(kind) ? 1 : 0 };
+		}
+		if (isLayered(kind)) {
+			const layered = line.match(new RegExp(`^---${kind}-(\\d+)---`));
+			const level = layered ? parseInt(layered[1]) : 0;
+			if (level >= 1 && level <= MAX_LAYER) {
+				return { kind, level };
+			}
+		}
+	}
+	return null;
+}
+
+export function sectionMarker(kind: SectionKind, level = 1): string {
+	return isLayered(kind) && level > 1
+		? `---${kind}-${level}---`
+		: `---${kind}---`;
+}
+
+function isLayered(kind: SectionKind): boolean {
+	return kind === "commentary" || kind === "footnote";
+}
+
+export function parseCommentary(source: string): CommentaryDocument {
+	const lines = source.split("\n");
+	const doc: CommentaryDocument = {
+		preamble: "",
+		sections: [],
+		segments: [],
+		metadata: {},
+		definitions: [],
+		references: [],
+		anchors: [],
+		anchorRefs: [],
+		apparatus: [],
+		lemmas: [],
+		lineCount: lines.length,
+	};
+
+	let current: CommentarySection | null = null;
+	let offset = 0;
+
+	for (let i = 0; i < lines.length; i++) {
+		const line = lines[i];
+		const raw = i < lines.length - 1 ? line + "\n" : line;
+		const match = matchSectionMarker(line);
+
+		if (match) {
+			if (current) closeSection(current, offset, i);
+			current = {
+				kind: match.kind,
+				level: match.level,
+				marker: raw,
+				body: "",
+				range: { start: offset, end: offset + raw.length },
+				bodyRange: {
+					start: offset + raw.length,
+					end: offset + raw.length,
+				},
+				line: i,
+				endLine: i + 1,
+			};
+			doc.sections.push(current);
+		} else if (current) {
+			current.body += raw;
+		} else {
+			doc.preamble += raw;
+		}
+
+		offset += raw.length;
+	}
+
+	if (current) closeSection(current, offset, lines.length);
+
+	doc.segments = buildSegments(doc.sections);
+	doc.layers = buildLayers(doc.sections);
+
+	doc.sections.forEach((section, index) => {
+		if (section.kind === "metadata") {
+			parseMetadata(section, doc.metadata);
+		} else {
+			if (section.kind === "footnote") {
+				parseDefinitions(section, index, doc.definitions);
+			} else if (section.kind === "apparatus") {
+				parseApparatus(section, index, doc.apparatus);
+			}
+			parseMarkers(section, index, REFERENCE_PATTERN, (label, at) =>
+				doc.references.push({ ...at, label })
+			);
+
+			if (section.kind === "text") {
+				parseMarkers(section, index, ANCHOR_PATTERN, numbered(doc.anchors));
+				parseMarkers(section, index, LEMMA_PATTERN, numbered(doc.lemmas));
+			} else if (section.kind === "commentary") {
+				parseMarkers(
+					section,
+					index,
+					ANCHOR_PATTERN,
+					numbered(doc.anchorRefs)
+				);
+				parseMarkers(
+					section,
+					index,
+					PASSAGE_PATTERN,
+					numbered(doc.anchors)
+				);
+			}
+		}
+	});
+
+	doc.lemmas.forEach((marker) => {
+		const entry = getApparatusEntry(doc, marker.num);
+		if (entry) {
+			marker.lemmaRange = findLemma(
+				doc.sections[marker.section],
+				marker,
+				entry
+			);
+		}
+	});
+
+	return doc;
+}
+
+export function serializeCommentary(doc: CommentaryDocument): string {
+	return (
+		doc.preamble +
+		doc.sections.map((section) => section.marker + section.body).join("")
+	);
+}
+
+// Concatenated bodies of every section of the given kind. Layered kinds
+// default to the main commentary (level 1).
+export function getSectionText(
+	doc: CommentaryDocument,
+	kind: SectionKind,
+	level?: number
+): string {
+	return doc.sections
+		.filter(
+			(section) =>
+				section.kind === kind &&
+				(level === undefined
+					? section.level <= 1
+					: section.level === level)
+		)
+		.map((section) => section.body)
+		.join("");
+}
+
+export function getLayer(
+	doc: CommentaryDocument,
+	level: number
+): CommentaryLayer | undefined {
+	let layer = doc.layers;
+	while (layer && layer.level !== level) layer = layer.child;
+	return layer;
+}
+
+// Nesting level of the section a marker or definition was found in
+export function getLevel(
+	doc: CommentaryDocument,
+	item: { section: number }
+): number {
+	return doc.sections[item.section].level;
+}
+
+// A later definition with the same label overrides an earlier one. Each
+// layer has its own footnote series.
+export function getDefinition(
+	doc: CommentaryDocument,
+	label: string,
+	level = 1
+): FootnoteDefinition | undefined {
+	for (let i = doc.definitions.length - 1; i >= 0; i--) {
+		const def = doc.definitions[i];
+		if (def.label === label && getLevel(doc, def) === level) return def;
+	}
+	return undefined;
+}
+
+// Passages that no paragraph of the layer above points to yet. Text
+// passages (level 0) are commented on by the main commentary (level 1).
+export function getUncommentedAnchors(
+	doc: CommentaryDocument,
+	level = 0
+): TextAnchor[] {
+	const referenced = new Set(
+		doc.anchorRefs
+			.filter((ref) => getLevel(doc, ref) === level + 1)
+			.map((ref) => ref.num)
+	);
+	return doc.anchors.filter(
+		(anchor) =>
+			getLevel(doc, anchor) === level && !referenced.has(anchor.num)
+	);
+}
+
+// Rewrite a section body, applying edits given in block source offsets
+export function applySectionEdits(
+	section: CommentarySection,
+	edits: TextEdit[]
+): string {
+	const base = section.bodyRange.start;
+	let result = "";
+	let lastIndex = 0;
+
+	[...edits]
+		.sort((a, b) => a.range.start - b.range.start)
+		.forEach((edit) => {
+			result +=
+				section.body.slice(lastIndex, edit.range.start - base) +
+				edit.text;
+			lastIndex = edit.range.end - base;
+		});
+
+	return result + section.body.slice(lastIndex);
+}
+
+// Remove whole lines covering the range, including the line break
+export function deleteLines(source: string, range: SourceRange): TextEdit {
+	const start = source.lastIndexOf("\n", range.start - 1) + 1;
+	let end = source.indexOf("\n", range.end);
+	end = end === -1 ? source.length : end + 1;
+	return { range: { start, end }, text: "" };
+}
+
+// Apply non-overlapping edits to a block source
+export function applyTextEdits(source: string, edits: TextEdit[]): string {
+	let result = source;
+	[...edits]
+		.sort((a, b) => b.range.start - a.range.start)
+		.forEach((edit) => {
+			result =
+				result.slice(0, edit.range.start) +
+				edit.text +
+				result.slice(edit.range.end);
+		});
+	return result;
+}
+
+// Edits with the effect of `first` followed by `second`, whose offsets are
+// in the source `first` produces. Edits that overlap or touch are combined
+// into one, so the result stays non-overlapping.
+export function composeTextEdits(
+	source: string,
+	first: TextEdit[],
+	second: TextEdit[]
+): TextEdit[] {
+	const sorted = [...first].sort((a, b) => a.range.start - b.range.start);
+	const between = applyTextEdits(source, sorted);
+
+	// Where each of the first edits ends up
+	const outputs: SourceRange[] = [];
+	let delta = 0;
+	sorted.forEach((edit) => {
+		const start = edit.range.start + delta;
+		outputs.push({ start, end: start + edit.text.length });
+		delta += edit.text.length - (edit.range.end - edit.range.start);
+	});
+	const shift = (edit: TextEdit) =>
+		edit.text.length - (edit.range.end - edit.range.start);
+
+	// Source range of a second edit, widened to the first edits it touches
+	const toSource = (range: SourceRange): SourceRange => {
+		let start = range.start;
+		let end = range.end;
+		sorted.forEach((edit, i) => {
+			const output = outputs[i];
+			if (output.end < range.start) start -= shift(edit);
+			if (output.end < range.end) end -= shift(edit);
+		});
+		sorted.forEach((edit, i) => {
+			const output = outputs[i];
+			if (output.start <= range.end && output.end >= range.start) {
+				start = Math.min(start, edit.range.start);
+				end = Math.max(end, edit.range.end);
+			}
+		});
+		return { start, end };
+	};
+
+	const groups = [
+		...sorted.map((edit) => ({ ...edit.range })),
+		...second.map((edit) => toSource(edit.range)),
+	].sort((a, b) => a.start - b.start);
+	const merged: SourceRange[] = [];
+	groups.forEach((range) => {
+		const last = merged[merged.length - 1];
+		if (last && range.start <= last.end) {
+			last.end = Math.max(last.end, range.end);
+		} else {
+			merged.push(range);
+		}
+	});
+
+	return merged.map((range) => {
+		// No first edit straddles a group's bounds
+		let start = range.start;
+		let end = range.end;
+		sorted.forEach((edit) => {
+			if (edit.range.start < range.start) start += shift(edit);
+			if (edit.range.start <= range.end) end += shift(edit);
+		});
+		const inside = second
+			.filter(
+				(edit) => edit.range.start >= start && edit.range.end <= end
+			)
+			.map((edit) => ({
+				range: {
+					start: edit.range.start - start,
+					end: edit.range.end - start,
+				},
+				text: edit.text,
+			}));
+		return {
+			range,
+			text: applyTextEdits(between.slice(start, end), inside),
+		};
+	});
+}
+
+export function getApparatusEntry(
+	doc: CommentaryDocument,
+	num: number
+): ApparatusEntry | undefined {
+	for (let i = doc.apparatus.length - 1; i >= 0; i--) {
+		if (doc.apparatus[i].num === num) return doc.apparatus[i];
+	}
+	return undefined;
+}
+
+// Witness sigla declared in metadata, e.g. `sigla: ب = Berlin 123; ج = Cairo 45`
+export function getSigla(doc: CommentaryDocument): Map<string, string> {
+	const sigla: Map<string, string> = new Map();
+	const declared = doc.metadata.sigla;
+	if (typeof declared !== "string") return sigla;
+
+	declared.split(";").forEach((entry) => {
+		const [siglum, ...description] = entry.split("=");
+		if (siglum.trim()) {
+			sigla.set(siglum.trim(), description.join("=").trim());
+		}
+	});
+	return sigla;
+}
+
+export type LineTokenKind =
+	| "reference"
+	| "definition"
+	| "type"
+	| "anchor"
+	| "passage"
+	| "lemma"
+	| "entry"
+	| "key";
+
+export interface LineToken {
+	kind: LineTokenKind;
+	// Offsets within the line
+	from: number;
+	to: number;
+}
+
+// Inline syntax on one line of a section body, in line order. Used for
+// editor highlighting, so it follows the same rules as parseCommentary.
+export function tokenizeLine(line: string, kind: SectionKind): LineToken[] {
+	const tokens: LineToken[] = [];
+	const collect = (pattern: RegExp, tokenKind: LineTokenKind, from = 0) => {
+		const regex = new RegExp(pattern.source, pattern.flags);
+		regex.lastIndex = from;
+		let match;
+		while ((match = regex.exec(line)) !== null) {
+			tokens.push({
+				kind: tokenKind,
+				from: match.index,
+				to: match.index + match[0].length,
+			});
+		}
+	};
+
+	if (kind === "metadata") {
+		const match = line.match(METADATA_PATTERN);
+		if (match) tokens.push({ kind: "key", from: 0, to: match[1].length });
+		return tokens;
+	}
+
+	// `$[n]:` and `&[n]:` open entries in their own sections only
+	let skip = 0;
+	const opener =
+		kind === "footnote"
+			? line.match(DEFINITION_PATTERN)
+			: kind === "apparatus"
+			? line.match(APPARATUS_PATTERN)
+			: null;
+	if (opener) {
+		skip = opener[0].length;
+		tokens.push({
+			kind: kind === "footnote" ? "definition" : "entry",
+			from: 0,
+			to: opener[0].replace(/\s+$/, "").length,
+		});
+		const typeMatch = line.slice(skip).match(TYPE_PATTERN);
+		if (kind === "footnote" && typeMatch) {
+			tokens.push({
+				kind: "type",
+				from: skip,
+				to: skip + typeMatch[1].length + 1,
+			});
+		}
+	}
+
+	collect(REFERENCE_PATTERN, "reference", skip);
+	if (kind === "text") {
+		collect(ANCHOR_PATTERN, "anchor");
+		collect(LEMMA_PATTERN, "lemma");
+	} else if (kind === "commentary") {
+		collect(ANCHOR_PATTERN, "anchor");
+		collect(PASSAGE_PATTERN, "passage");
+	}
+
+	return tokens.sort((a, b) => a.from - b.from);
+}
+
+// Persistent block id from `id:` in the metadata, if it is usable as an
+// Obsidian block id
+export function getBlockId(doc: CommentaryDocument): string | undefined {
+	const id = doc.metadata.id;
+	return typeof id === "string" && BLOCK_ID_PATTERN.test(id) ? id : undefined;
+}
+
+export function getSectionAtLine(
+	doc: CommentaryDocument,
+	line: number
+): CommentarySection | undefined {
+	return doc.sections.find(
+		(section) => line >= section.line && line < section.endLine
+	);
+}
+
+export interface TextSource {
+	linkpath: string;
+	subpath: string;
+	// Index of the text section, and the line of its `source:`
+	section: number;
+	line: number;
+}
+
+// Text sections written as `source: [[Note#^passage]]` instead of a pasted
+// copy, in order
+export function getTextSources(doc: CommentaryDocument): TextSource[] {
+	const sources: TextSource[] = [];
+	doc.sections.forEach((section, index) => {
+		if (section.kind !== "text") return;
+		const match = section.body.trim().match(SOURCE_PATTERN);
+		if (match) {
+			const leading = section.body.match(/^\s*/)?.[0] || "";
+			sources.push({
+				linkpath: match[1].trim(),
+				subpath: match[2] || "",
+				section: index,
+				line: section.line + 1 + leading.split("\n").length - 1,
+			});
+		}
+	});
+	return sources;
+}
+
+// Hashes of the source passages as they were when the commentary was
+// written, one per text source
+export function getSourceHashes(doc: CommentaryDocument): string[] {
+	const value = doc.metadata.sourcehash;
+	if (typeof value !== "string") return [];
+	return value.split(",").map((hash) => hash.trim());
+}
+
+// Edit setting `key: value` in the metadata section, which is created at
+// the top of the block if needed
+export function setMetadataValue(
+	doc: CommentaryDocument,
+	key: string,
+	value: string
+): TextEdit {
+	const line = `${key}: ${value}`;
+	const section = doc.sections.find(
+		(candidate) => candidate.kind === "metadata"
+	);
+	if (!section) {
+		return {
+			range: { start: 0, end: 0 },
+			text: `${sectionMarker("metadata")}\n${line}\n`,
+		};
+	}
+
+	const lines = section.body.split("\n");
+	const starts: number[] = [];
+	let offset = section.bodyRange.start;
+	lines.forEach((text) => {
+		starts.push(offset);
+		offset += text.length + 1;
+	});
+
+	const existing = lines.findIndex((text) => {
+		const match = text.match(METADATA_PATTERN);
+		return match !== null && match[1] === key;
+	});
+	if (existing >= 0) {
+		const start = starts[existing];
+		return {
+			range: { start, end: start + lines[existing].length },
+			text: line,
+		};
+	}
+
+	// After the last metadata line, before any trailing blank lines
+	let last = lines.length - 1;
+	while (last >= 0 && !lines[last].trim()) last--;
+	if (last < 0) {
+		const start = section.bodyRange.start;
+		return {
+			range: { start, end: start },
+			text: section.marker.endsWith("\n") ? `${line}\n` : `\n${line}`,
+		};
+	}
+	const end = starts[last] + lines[last].length;
+	return { range: { start: end, end }, text: `\n${line}` };
+}
+
+export interface CommentaryLink {
+	// Note part of the target as written, e.g. "Tafsir/Al-Fatiha"
+	linkpath: string;
+	// Heading or block part, e.g. "#^v3"
+	subpath: string;
+	embed: boolean;
+	line: number;
+	section: number;
+	// The line the link is on, trimmed, for showing it in context
+	context: string;
+}
+
+// Internal links written in section bodies, as wikilinks or Markdown links.
+// External URLs and links within the same note are left out.
+export function findLinks(doc: CommentaryDocument): CommentaryLink[] {
+	const links: CommentaryLink[] = [];
+
+	doc.sections.forEach((section, index) => {
+		section.body.split("\n").forEach((text, i) => {
+			const add = (embed: string, target: string) => {
+				const hash = target.indexOf("#");
+				const linkpath = hash === -1 ? target : target.slice(0, hash);
+				if (!linkpath.trim()) return;
+				links.push({
+					linkpath: linkpath.trim(),
+					subpath: hash === -1 ? "" : target.slice(hash),
+					embed: embed === "!",
+					line: section.line + 1 + i,
+					section: index,
+					context: text.trim(),
+				});
+			};
+
+			const wikilinks = new RegExp(WIKILINK_PATTERN.source, "g");
+			let match;
+			while ((match = wikilinks.exec(text)) !== null) {
+				add(match[1], match[2]);
+			}
+
+			const markdownLinks = new RegExp(MARKDOWN_LINK_PATTERN.source, "g");
+			while ((match = markdownLinks.exec(text)) !== null) {
+				if (/^[a-z][a-z0-9+.-]*:/i.test(match[2])) continue;
+				let target = match[2];
+				try {
+					target = decodeURI(target);
+				} catch (e) {
+					// Keep malformed escapes as written
+				}
+				add(match[1], target);
+			}
+		});
+	});
+
+	return links;
+}
+
+export interface CommentaryBlockLocation {
+	// Opening fence line, and closing fence line (or the first line after
+	// the block when it runs to the end of the note or of its blockquote)
+	startLine: number;
+	endLine: number;
+	// Offset of the first content line within the note
+	contentStart: number;
+	// Content with each line's prefix removed
+	source: string;
+	// Blockquote or callout markers and fence indentation in front of each
+	// content line. New lines get `prefix`, the one the opening fence has.
+	prefixes: string[];
+	prefix: string;
+	// Just the blockquote or callout markers of the opening fence, for lines
+	// added after the block
+	quote: string;
+	// Obsidian block id on the line after the closing fence, as in `^my-id`
+	blockRef?: string;
+}
+
+interface FenceLine {
+	// Blockquote markers before the fence and how many there are
+	quote: string;
+	depth: number;
+	indent: number;
+	fence: string;
+	language: string;
+}
+
+// Line access for scanning a note in place, so an editor's document doesn't
+// have to be joined and split again
+export interface NoteLines {
+	count: number;
+	line(index: number): string;
+	// Offset of the line's first character; past the last line, the length
+	// of the note
+	offset(index: number): number;
+}
+
+// A fenced code block of any language. Only commentary blocks have a
+// location.
+export interface FenceRegion {
+	startLine: number;
+	// Line scanning resumes at: the one after the closing fence, or the line
+	// that ended an unclosed block
+	next: number;
+	block?: CommentaryBlockLocation;
+}
+
+export function splitLines(content: string): NoteLines {
+	const lines = content.split("\n");
+	const starts: number[] = [];
+	let offset = 0;
+	lines.forEach((line) => {
+		starts.push(offset);
+		offset += line.length + 1;
+	});
+	return {
+		count: lines.length,
+		line: (index) => lines[index],
+		offset: (index) =>
+			index < starts.length ? starts[index] : content.length,
+	};
+}
+
+// Every commentary code block in a note. Fences follow CommonMark: three or
+// more backticks or tildes indented up to three spaces, closed by a run of
+// the same character at least as long, inside any blockquote or callout.
+// Other fenced code is skipped, so a commentary block quoted in a code
+// sample isn't picked up.
+export function findCommentaryBlocks(
+	content: string
+): CommentaryBlockLocation[] {
+	const blocks: CommentaryBlockLocation[] = [];
+	scanFences(splitLines(content), 0).regions.forEach((region) => {
+		if (region.block) blocks.push(region.block);
+	});
+	return blocks;
+}
+
+// Fenced code from line `start` on. With `stop`, the scan ends at the first
+// line outside any fence it accepts; `end` is where the scan ended.
+export function scanFences(
+	lines: NoteLines,
+	start: number,
+	stop?: (line: number) => boolean
+): { regions: FenceRegion[]; end: number } {
+	const regions: FenceRegion[] = [];
+
+	for (let i = start; i < lines.count; i++) {
+		if (stop && stop(i)) return { regions, end: i };
+		const open = matchOpeningFence(lines.line(i));
+		if (!open) continue;
+
+		const prefixes: string[] = [];
+		const body: string[] = [];
+		let end = i + 1;
+		let closed = false;
+		for (; end < lines.count; end++) {
+			const line = lines.line(end);
+			const { prefix, depth } = splitQuote(line, open.depth);
+			// Leaving the blockquote ends the block, like the end of the note
+			if (depth < open.depth) break;
+
+			const rest = line.slice(prefix.length);
+			if (isClosingFence(rest, open.fence)) {
+				closed = true;
+				break;
+			}
+			const indent = rest.length - rest.replace(/^ +/, "").length;
+			const margin = prefix.length + Math.min(indent, open.indent);
+			prefixes.push(line.slice(0, margin));
+			body.push(line.slice(margin));
+		}
+
+		// The line that ended an unclosed block may open another one
+		const region: FenceRegion = {
+			startLine: i,
+			next: closed ? end + 1 : end,
+		};
+		if (open.language === "commentary") {
+			const next =
+				closed && end + 1 < lines.count
+					? lines.line(end + 1)
+					: undefined;
+			const refMatch = next
+				?.slice(splitQuote(next, open.depth).prefix.length)
+				.match(BLOCK_REF_PATTERN);
+			region.block = {
+				startLine: i,
+				endLine: end,
+				contentStart: lines.offset(i + 1),
+				source: body.join("\n"),
+				prefixes,
+				prefix: open.quote + " ".repeat(open.indent),
+				quote: open.quote,
+				blockRef: refMatch ? refMatch[1] : undefined,
+			};
+		}
+		regions.push(region);
+		i = region.next - 1;
+	}
+
+	return { regions, end: lines.count };
+}
+
+// Note offsets for edits to a block's source. Line breaks the edits insert
+// are followed by the block's prefix, so new lines stay inside a callout or
+// blockquote.
+export function toNoteEdits(
+	block: CommentaryBlockLocation,
+	edits: TextEdit[]
+): TextEdit[] {
+	const sourceStarts: number[] = [];
+	const noteStarts: number[] = [];
+	let source = 0;
+	let note = block.contentStart;
+	block.source.split("\n").forEach((line, i) => {
+		const prefix = block.prefixes[i] ?? block.prefix;
+		sourceStarts.push(source);
+		noteStarts.push(note + prefix.length);
+		source += line.length + 1;
+		note += prefix.length + line.length + 1;
+	});
+
+	const toNote = (offset: number) => {
+		let i = sourceStarts.length - 1;
+		while (i > 0 && sourceStarts[i] > offset) i--;
+		return noteStarts[i] + offset - sourceStarts[i];
+	};
+	return edits.map((edit) => ({
+		range: { start: toNote(edit.range.start), end: toNote(edit.range.end) },
+		text: edit.text.replace(/\n/g, `\n${block.prefix}`),
+	}));
+}
+
+// Source offset of a position in the block's content; `line` counts from
+// the first content line and `ch` includes the line's prefix
+export function toSourceOffset(
+	block: CommentaryBlockLocation,
+	line: number,
+	ch: number
+): number {
+	const lines = block.source.split("\n");
+	let offset = 0;
+	for (let i = 0; i < line && i < lines.length; i++) {
+		offset += lines[i].length + 1;
+	}
+	const prefix = block.prefixes[line] ?? block.prefix;
+	return offset + Math.max(0, ch - prefix.length);
+}
+
+function matchOpeningFence(line: string): FenceLine | null {
+	const { prefix, depth } = splitQuote(line);
+	const match = line.slice(prefix.length).match(FENCE_PATTERN);
+	if (!match) return null;
+
+	const [, indent, fence, info] = match;
+	// Backticks can't appear in the info string of a backtick fence
+	if (fence[0] === "`" && info.includes("`")) return null;
+
+	return {
+		quote: prefix,
+		depth,
+		indent: indent.length,
+		fence,
+		language: info.trim().split(/\s+/)[0],
+	};
+}
+
+function isClosingFence(line: string, fence: string): boolean {
+	const match = line.match(CLOSING_FENCE_PATTERN);
+	return (
+		match !== null &&
+		match[1][0] === fence[0] &&
+		match[1].length >= fence.length
+	);
+}
+
+// Blockquote markers at the start of a line, at most `limit` of them
+function splitQuote(
+	line: string,
+	limit = Infinity
+): { prefix: string; depth: number } {
+	let prefix = "";
+	let depth = 0;
+	while (depth < limit) {
+		const match = line.slice(prefix.length).match(QUOTE_PATTERN);
+		if (!match) break;
+		prefix += match[0];
+		depth++;
+	}
+	return { prefix, depth };
+}
+
+function buildSegments(sections: CommentarySection[]): CommentarySegment[] {
+	// A text section always opens a new segment; a commentary section joins
+	// the open segment unless it already has commentary
+	const segments: CommentarySegment[] = [];
+	let current: CommentarySegment | null = null;
+
+	sections.forEach((section, index) => {
+		if (section.kind === "text") {
+			current = { text: index };
+			segments.push(current);
+		} else if (section.kind === "commentary" && section.level === 1) {
+			if (current && current.commentary === undefined) {
+				current.commentary = index;
+			} else {
+				current = { commentary: index };
+				segments.push(current);
+			}
+		}
+	});
+
+	return segments;
+}
+
+function buildLayers(
+	sections: CommentarySection[]
+): CommentaryLayer | undefined {
+	const byLevel: Map<number, CommentaryLayer> = new Map();
+
+	sections.forEach((section, index) => {
+		if (section.kind !== "commentary" && section.kind !== "footnote") {
+			return;
+		}
+		let layer = byLevel.get(section.level);
+		if (!layer) {
+			layer = { level: section.level, commentary: [], footnote: [] };
+			byLevel.set(section.level, layer);
+		}
+		layer[section.kind].push(index);
+	});
+
+	// Chain the layers so each one nests under the tier it comments on
+	const layers = Array.from(byLevel.values()).sort(
+		(a, b) => a.level - b.level
+	);
+	layers.forEach((layer, i) => {
+		layer.child = layers[i + 1];
+	});
+
+	return layers[0];
+}
+
+function closeSection(section: CommentarySection, end: number, line: number) {
+	section.range.end = end;
+	section.bodyRange.end = end;
+	section.endLine = line;
+}
+
+function parseMetadata(
+	section: CommentarySection,
+	metadata: CommentaryMetadata
+) {
+	// Metadata lines look like `title: My Title` or `tags: tag1, tag2`
+	for (const line of section.body.split("\n")) {
+		const metaMatch = line.match(METADATA_PATTERN);
+		if (!metaMatch) continue;
+
+		const [, key, value] = metaMatch;
+		if (key === "tags") {
+			metadata[key] = value.split(",").map((t) => t.trim());
+		} else {
+			metadata[key] = value.trim();
+		}
+	}
+}
+
+// Whether a string can be used inside `$[...]`
+export function isFootnoteLabel(label: string): boolean {
+	return LABEL_PATTERN.test(label);
+}
+
+export function isNumericLabel(label: string): boolean {
+	return /^\d+$/.test(label);
+}
+
+interface RawEntry {
+	// Label between the brackets of the opener
+	key: string;
+	content: string;
+	range: SourceRange;
+	line: number;
+	endLine: number;
+	section: number;
+}
+
+// An entry starts at its `$[n]:` or `&[n]:` opener and runs until a blank
+// line or the next entry
+function parseEntries(
+	section: CommentarySection,
+	sectionIndex: number,
+	opener: RegExp
+): RawEntry[] {
+	const entries: RawEntry[] = [];
+	const lines = section.body.split("\n");
+	let offset = section.bodyRange.start;
+	let open: { entry: RawEntry; parts: string[] } | null = null;
+
+	const finish = () => {
+		if (!open) return;
+		open.entry.content = open.parts.join("\n").trim();
+		entries.push(open.entry);
+		open = null;
+	};
+
+	lines.forEach((line, i) => {
+		const lineNumber = section.line + 1 + i;
+		const openMatch = line.match(opener);
+
+		if (openMatch) {
+			finish();
+			open = {
+				entry: {
+					key: openMatch[1],
+					content: "",
+					range: { start: offset, end: offset + line.length },
+					line: lineNumber,
+					endLine: lineNumber + 1,
+					section: sectionIndex,
+				},
+				parts: [line.slice(openMatch[0].length)],
+			};
+		} else if (open && line.trim() !== "") {
+			open.parts.push(line);
+			open.entry.range.end = offset + line.length;
+			open.entry.endLine = lineNumber + 1;
+		} else {
+			finish();
+		}
+
+		offset += line.length + 1;
+	});
+
+	finish();
+	return entries;
+}
+
+function parseDefinitions(
+	section: CommentarySection,
+	sectionIndex: number,
+	definitions: FootnoteDefinition[]
+) {
+	parseEntries(section, sectionIndex, DEFINITION_PATTERN).forEach(
+		({ key, ...entry }) => {
+			const typeMatch = entry.content.match(TYPE_PATTERN);
+			definitions.push({
+				...entry,
+				label: key,
+				typeKeyword: typeMatch ? typeMatch[1] : undefined,
+				typeBody: typeMatch ? typeMatch[2].trim() : entry.content,
+			});
+		}
+	);
+}
+
+function parseApparatus(
+	section: CommentarySection,
+	sectionIndex: number,
+	apparatus: ApparatusEntry[]
+) {
+	parseEntries(section, sectionIndex, APPARATUS_PATTERN).forEach(
+		({ key, ...entry }) => {
+			// Without a `]` the whole entry is a reading of an unnamed lemma
+			const bracket = entry.content.indexOf("]");
+			const lemma =
+				bracket >= 0 ? entry.content.slice(0, bracket).trim() : "";
+			const rest =
+				bracket >= 0 ? entry.content.slice(bracket + 1) : entry.content;
+
+			const readings = rest
+				.split(";")
+				.map((part) => part.trim())
+				.filter((part) => part.length > 0)
+				.map((part) => {
+					const colon = part.indexOf(":");
+					if (colon < 0) return { sigla: [], text: part };
+					return {
+						sigla: part
+							.slice(0, colon)
+							.split(/\s+/)
+							.filter((siglum) => siglum.length > 0),
+						text: part.slice(colon + 1).trim(),
+					};
+				});
+
+			apparatus.push({ ...entry, num: parseInt(key), lemma, readings });
+		}
+	);
+}
+
+function findLemma(
+	section: CommentarySection,
+	marker: LemmaMarker,
+	entry: ApparatusEntry
+): SourceRange | undefined {
+	if (!entry.lemma) return undefined;
+
+	// The lemma must end right before the marker, give or take whitespace
+	const before = section.body
+		.slice(0, marker.range.start - section.bodyRange.start)
+		.replace(/\s+$/, "");
+	if (!before.endsWith(entry.lemma)) return undefined;
+
+	const start = section.bodyRange.start + before.length - entry.lemma.length;
+	return { start, end: start + entry.lemma.length };
+}
+
+// Collector for markers whose label is always a number
+function numbered(markers: SourceMarker[]) {
+	return (id: string, position: MarkerPosition) => {
+		markers.push({ ...position, num: parseInt(id) });
+	};
+}
+
+function parseMarkers(
+	section: CommentarySection,
+	sectionIndex: number,
+	markerPattern: RegExp,
+	collect: (id: string, position: MarkerPosition) => void
+) {
+	const lines = section.body.split("\n");
+	let offset = section.bodyRange.start;
+
+	lines.forEach((line, i) => {
+		// Skip the `$[n]:` that opens a definition
+		const skip =
+			section.kind === "footnote"
+				? line.match(DEFINITION_PATTERN)?.[0].length ?? 0
+				: 0;
+
+		const pattern = new RegExp(markerPattern.source, markerPattern.flags);
+		pattern.lastIndex = skip;
+		let match;
+		while ((match = pattern.exec(line)) !== null) {
+			collect(match[1], {
+				range: {
+					start: offset + match.index,
+					end: offset + match.index + match[0].length,
+				},
+				line: section.line + 1 + i,
+				ch: match.index,
+				section: sectionIndex,
+			});
+		}
+
+		offset += line.length + 1;
+	});
+}
@@ -0,0 +1,185 @@
+// Queries for ```commentary-query blocks. A query is written like block
+// metadata, one `key: value` filter per line, and is run against the vault
+// index:
+//
+//     tag: fiqh
+//     folder: Tafsir
+//     type: question
+//     sort: words desc
+//     limit: 20
+
+import { IndexedBlock, IndexedFootnote } from "./commentary-index";
+
+export type QueryFormat = "table" | "list";
+export type QuerySortKey = "path" | "title" | "words" | "footnotes";
+
+export interface CommentaryQuery {
+	tags: string[];
+	// Case-insensitive substring of the block title
+	title?: string;
+	folder?: string;
+	// Blocks with at least one footnote of each of these types
+	types: string[];
+	sort: QuerySortKey;
+	descending: boolean;
+	limit?: number;
+	format: QueryFormat;
+}
+
+export interface QueryError {
+	line: number;
+	message: string;
+}
+
+const QUERY_LINE_PATTERN = /^(\w+):\s*(.*)$/;
+const SORT_KEYS: QuerySortKey[] = ["path", "title", "words", "footnotes"];
+
+export function parseQuery(source: string): {
+	query: CommentaryQuery;
+	errors: QueryError[];
+} {
+	const query: CommentaryQuery = {
+		tags: [],
+		types: [],
+		sort: "path",
+		descending: false,
+		format: "table",
+	};
+	const errors: QueryError[] = [];
+	const list = (value: string) =>
+		value
+			.split(",")
+			.map((item) => item.trim().replace(/^#/, ""))
+			.filter((item) => item.length > 0);
+
+	source.split("\n").forEach((raw, line) => {
+		const text = raw.trim();
+		if (!text || text.startsWith("//")) return;
+
+		const match = text.match(QUERY_LINE_PATTERN);
+		if (!match) {
+			errors.push({
+				line,
+				message: `Expected "key: value", got "${text}"`,
+			});
+			return;
+		}
+
+		const [, key, value] = match;
+		switch (key.toLowerCase()) {
+			case "tag":
+			case "tags":
+				query.tags.push(...list(value));
+				break;
+			case "title":
+				query.title = value.trim();
+				break;
+			case "folder":
+			case "path":
+				query.folder = value.trim().replace(/^\/+|\/+$/g, "");
+				break;
+			case "type":
+			case "types":
+				query.types.push(...list(value));
+				break;
+			case "sort": {
+				const [sortKey, direction] = value
+					.trim()
+					.toLowerCase()
+					.split(/\s+/);
+				if (SORT_KEYS.includes(sortKey as QuerySortKey)) {
+					query.sort = sortKey as QuerySortKey;
+					query.descending = direction === "desc";
+				} else {
+					errors.push({
+						line,
+						message: `Cannot sort by "${sortKey}"; use ${SORT_KEYS.join(", ")}`,
+					});
+				}
+				break;
+			}
+			case "limit": {
+				const limit = parseInt(value);
+				if (limit > 0) {
+					query.limit = limit;
+				} else {
+					errors.push({
+						line,
+						message: "Limit must be a positive number",
+					});
+				}
+				break;
+			}
+			case "format":
+				if (value.trim() === "table" || value.trim() === "list") {
+					query.format = value.trim() as QueryFormat;
+				} else {
+					errors.push({
+						line,
+						message: 'Format must be "table" or "list"',
+					});
+				}
+				break;
+			default:
+				errors.push({ line, message: `Unknown query key "${key}"` });
+		}
+	});
+
+	return { query, errors };
+}
+
+export function runQuery(
+	blocks: IndexedBlock[],
+	query: CommentaryQuery
+): IndexedBlock[] {
+	const title = query.title?.toLowerCase();
+	const folder = query.folder ? `${query.folder}/` : undefined;
+
+	const matches = blocks.filter((block) => {
+		const tags = block.metadata.tags || [];
+		if (query.tags.some((tag) => !tags.includes(tag))) return false;
+		if (
+			title &&
+			!(block.metadata.title || "").toLowerCase().includes(title)
+		) {
+			return false;
+		}
+		if (folder && !block.path.startsWith(folder)) return false;
+		return query.types.every((type) => block.footnotes[type]?.length > 0);
+	});
+
+	const value = (block: IndexedBlock): string | number => {
+		switch (query.sort) {
+			case "title":
+				return (block.metadata.title || "").toLowerCase();
+			case "words":
+				return block.commentaryWords;
+			case "footnotes":
+				return block.doc.definitions.length;
+			default:
+				return block.path;
+		}
+	};
+	const direction = query.descending ? -1 : 1;
+	matches.sort((a, b) => {
+		const x = value(a);
+		const y = value(b);
+		if (x !== y) return (x < y ? -1 : 1) * direction;
+		if (a.path !== b.path) return a.path < b.path ? -1 : 1;
+		return a.index - b.index;
+	});
+
+	return query.limit ? matches.slice(0, query.limit) : matches;
+}
+
+// Footnotes of the queried types, for listing under each block
+export function getQueriedFootnotes(
+	block: IndexedBlock,
+	query: CommentaryQuery
+): IndexedFootnote[] {
+	const footnotes: IndexedFootnote[] = [];
+	query.types.forEach((type) =>
+		footnotes.push(...(block.footnotes[type] || []))
+	);
+	return footnotes.sort((a, b) => a.line - b.line);
+}
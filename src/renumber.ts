@@ -0,0 +1,151 @@
+// Source-level footnote renumbering. The renderer already numbers footnotes
+// by first appearance; this rewrites the block itself so the source matches.
+
+import {
+	CommentaryDocument,
+	FootnoteDefinition,
+	TextEdit,
+	applyTextEdits,
+	getLevel,
+	isNumericLabel,
+	serializeCommentary,
+} from "./parser";
+
+// Rewrite the numeric labels of every footnote series of the block into a
+// contiguous 1..N sequence in reading order; named labels are kept. Definitions
+// are reordered to match, with never-referenced ones after the rest. Returns
+// one edit per changed label and per definition slot that gets another
+// definition, so the rest of the block is left alone.
+export function renumberFootnotes(doc: CommentaryDocument): TextEdit[] {
+	const source = serializeCommentary(doc);
+	const numbering = buildNumbering(doc);
+	const relabel = (label: string, level: number) =>
+		numbering.get(level)?.labels.get(label) ?? label;
+	const rank = (label: string, level: number) =>
+		numbering.get(level)?.order.get(label) ?? 0;
+
+	const insideDefinition = (range: { start: number; end: number }) =>
+		doc.definitions.some(
+			(def) => range.start >= def.range.start && range.end <= def.range.end
+		);
+
+	const edits: TextEdit[] = [];
+
+	doc.references.forEach((ref) => {
+		if (insideDefinition(ref.range)) return;
+		const label = relabel(ref.label, Math.max(1, getLevel(doc, ref)));
+		if (label !== ref.label) {
+			edits.push({ range: ref.range, text: `$[${label}]` });
+		}
+	});
+
+	// Definitions are reordered in place: each slot a definition occupied is
+	// filled with the definition that now sorts there
+	numbering.forEach(({ labels }, level) => {
+		const slots = doc.definitions.filter(
+			(def) => getLevel(doc, def) === level
+		);
+		const sorted = slots
+			.map((def, index) => ({ def, index }))
+			.sort(
+				(a, b) =>
+					rank(a.def.label, level) - rank(b.def.label, level) ||
+					a.index - b.index
+			);
+
+		slots.forEach((slot, i) => {
+			const { def } = sorted[i];
+			if (def === slot) {
+				edits.push(...relabelDefinition(doc, def, labels));
+				return;
+			}
+			const base = def.range.start;
+			edits.push({
+				range: slot.range,
+				text: applyTextEdits(
+					source.slice(base, def.range.end),
+					relabelDefinition(doc, def, labels).map((edit) => ({
+						range: {
+							start: edit.range.start - base,
+							end: edit.range.end - base,
+						},
+						text: edit.text,
+					}))
+				),
+			});
+		});
+	});
+
+	return edits;
+}
+
+interface SeriesNumbering {
+	// Old label → new label
+	labels: Map<string, string>;
+	// Label → position in reading order
+	order: Map<string, number>;
+}
+
+// Numbering of each footnote series, keyed by layer level. Text references
+// belong to the main commentary's series.
+function buildNumbering(
+	doc: CommentaryDocument
+): Map<number, SeriesNumbering> {
+	const numbering: Map<number, SeriesNumbering> = new Map();
+	const counters: Map<number, number> = new Map();
+
+	const assign = (label: string, level: number) => {
+		const series = numbering.get(level) || {
+			labels: new Map<string, string>(),
+			order: new Map<string, number>(),
+		};
+		numbering.set(level, series);
+		if (series.order.has(label)) return;
+
+		series.order.set(label, series.order.size + 1);
+		if (isNumericLabel(label)) {
+			const next = (counters.get(level) || 0) + 1;
+			counters.set(level, next);
+			series.labels.set(label, String(next));
+		}
+	};
+
+	doc.references.forEach((ref) =>
+		assign(ref.label, Math.max(1, getLevel(doc, ref)))
+	);
+	doc.definitions.forEach((def) => assign(def.label, getLevel(doc, def)));
+
+	return numbering;
+}
+
+// Edits to a definition's own label and any references inside it
+function relabelDefinition(
+	doc: CommentaryDocument,
+	def: FootnoteDefinition,
+	labels: Map<string, string>
+): TextEdit[] {
+	const edits: TextEdit[] = [];
+	const label = labels.get(def.label) ?? def.label;
+	if (label !== def.label) {
+		const start = def.range.start;
+		edits.push({
+			range: { start, end: start + `$[${def.label}]`.length },
+			text: `$[${label}]`,
+		});
+	}
+
+	doc.references
+		.filter(
+			(ref) =>
+				ref.range.start >= def.range.start &&
+				ref.range.end <= def.range.end
+		)
+		.forEach((ref) => {
+			const label = labels.get(ref.label) ?? ref.label;
+			if (label !== ref.label) {
+				edits.push({ range: ref.range, text: `$[${label}]` });
+			}
+		});
+
+	return edits;
+}
@@ -0,0 +1,172 @@
+import { BlockIndex } from "../src/block-index";
+import { splitLines } from "../src/parser";
+
+const lines = (...text: string[]) => text.join("\n");
+
+// Replaces lines `from` to `toOld` with `insert`, updating the index the way
+// the editor does, and checks it against a fresh build of the new note
+const replaceLines = (
+	content: string,
+	index: BlockIndex,
+	from: number,
+	toOld: number,
+	insert: string[]
+) => {
+	const oldLines = content.split("\n");
+	const newLines = [
+		...oldLines.slice(0, from),
+		...insert,
+		...oldLines.slice(toOld + 1),
+	];
+	const toNew = from + insert.length - 1;
+	const next = newLines.join("\n");
+
+	// Offsets after the change move by the change in length
+	const oldEnd = oldLines.slice(0, toOld + 1).join("\n").length;
+	const newEnd = newLines.slice(0, toNew + 1).join("\n").length;
+	const updated = index.update(
+		splitLines(next),
+		{ from, toOld, toNew },
+		(offset) => (offset >= oldEnd ? offset + newEnd - oldEnd : offset)
+	);
+
+	expect(updated.regions).toEqual(BlockIndex.build(splitLines(next)).regions);
+	return { content: next, index: updated };
+};
+
+describe("BlockIndex.update", () => {
+	const note = lines(
+		"Intro",
+		"```commentary",
+		"---commentary---",
+		"First",
+		"```",
+		"Between",
+		"> [!note]",
+		"> ```commentary",
+		"> Second",
+		"> ```",
+		"> ^second",
+		"",
+		"```commentary",
+		"Third",
+		"```",
+		"Outro"
+	);
+	const build = () => BlockIndex.build(splitLines(note));
+
+	it("updates a block typed in and keeps the others", () => {
+		const index = build();
+		const doc = index.getDoc(index.blocks[2]);
+		const { index: updated } = replaceLines(note, index, 3, 3, [
+			"First, edited",
+		]);
+
+		expect(updated.blocks.map((block) => block.source)).toEqual([
+			"---commentary---\nFirst, edited",
+			"Second",
+			"Third",
+		]);
+		// Blocks after the edit keep their parsed documents
+		expect(updated.getDoc(updated.blocks[2])).toBe(doc);
+	});
+
+	it("rescans when a fence is opened or closed above other blocks", () => {
+		let state = { content: note, index: build() };
+
+		// An unclosed fence swallows the blocks after it
+		state = replaceLines(state.content, state.index, 0, 0, ["~~~"]);
+		expect(state.index.blocks).toHaveLength(0);
+
+		// Closing it brings them back
+		state = replaceLines(state.content, state.index, 0, 0, ["~~~", "~~~"]);
+		expect(state.index.blocks).toHaveLength(3);
+
+		// Without its closing fence, the first block runs to the last one's
+		state = replaceLines(state.content, state.index, 5, 5, ["Inside"]);
+		expect(
+			state.index.blocks.map((block) => [block.startLine, block.endLine])
+		).toEqual([[2, 15]]);
+	});
+
+	it("follows a quote prefix removed and added again", () => {
+		let state = { content: note, index: build() };
+
+		state = replaceLines(state.content, state.index, 8, 8, ["Second"]);
+		expect(state.index.blocks[1]).toMatchObject({
+			startLine: 7,
+			endLine: 8,
+			source: "",
+		});
+
+		state = replaceLines(state.content, state.index, 8, 8, ["> Second"]);
+		expect(state.index.blocks[1]).toMatchObject({
+			startLine: 7,
+			endLine: 9,
+			blockRef: "second",
+			source: "Second",
+		});
+	});
+
+	it("shifts later blocks when lines are added or removed", () => {
+		let state = { content: note, index: build() };
+
+		state = replaceLines(state.content, state.index, 5, 5, [
+			"Between",
+			"and",
+			"more",
+		]);
+		expect(state.index.blocks.map((block) => block.startLine)).toEqual([
+			1, 9, 14,
+		]);
+
+		state = replaceLines(state.content, state.index, 0, 7, ["Intro"]);
+		expect(state.index.blocks.map((block) => block.startLine)).toEqual([
+			2, 7,
+		]);
+	});
+
+	it("matches a fresh build through a run of mixed edits", () => {
+		const pieces = [
+			"```commentary",
+			"```",
+			"> ```commentary",
+			"> text",
+			"> ```",
+			"~~~",
+			"````commentary",
+			"````",
+			"^ref",
+			"plain",
+			"",
+		];
+		// Fixed sequence, so a failure can be replayed
+		let seed = 7;
+		const random = (n: number) => {
+			seed = (seed * 1103515245 + 12345) & 0x7fffffff;
+			return seed % n;
+		};
+
+		const initial: string[] = [];
+		for (let i = 0; i < 40; i++) initial.push(pieces[random(11)]);
+		let state = {
+			content: initial.join("\n"),
+			index: BlockIndex.build(splitLines(initial.join("\n"))),
+		};
+
+		for (let step = 0; step < 300; step++) {
+			const count = state.content.split("\n").length;
+			const from = random(count);
+			const toOld = Math.min(count - 1, from + random(3));
+			const insert = [pieces[random(11)]];
+			for (let i = random(3); i > 0; i--) insert.push(pieces[random(11)]);
+			state = replaceLines(
+				state.content,
+				state.index,
+				from,
+				toOld,
+				insert
+			);
+		}
+	});
+});
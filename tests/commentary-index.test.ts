@@ -0,0 +1,48 @@
+import { CommentaryIndex } from "../src/commentary-index";
+
+const lines = (...text: string[]) => text.join("\n");
+
+const quoting = (linkpath: string) =>
+	lines(
+		"```commentary",
+		"---text---",
+		`source: [[${linkpath}#Chapter]]`,
+		"---commentary---",
+		"On it",
+		"```"
+	);
+
+describe("CommentaryIndex", () => {
+	const blocksQuoting = (index: CommentaryIndex, path: string) =>
+		index.getBlocksQuoting(path).map((block) => block.path);
+
+	it("finds blocks by the note their text sources link to", () => {
+		const index = new CommentaryIndex(() => "note");
+		index.update("notes/b.md", quoting("Sources/Quran"));
+		index.update("notes/a.md", quoting("quran.md"));
+		index.update("notes/c.md", quoting("Other"));
+
+		expect(blocksQuoting(index, "Sources/Quran.md")).toEqual([
+			"notes/a.md",
+			"notes/b.md",
+		]);
+		expect(blocksQuoting(index, "Missing.md")).toEqual([]);
+	});
+
+	it("keeps the sources current as notes change", () => {
+		const index = new CommentaryIndex(() => "note");
+		index.update("a.md", quoting("Quran"));
+		index.update("self.md", quoting(""));
+
+		index.update("a.md", quoting("Other"));
+		expect(blocksQuoting(index, "Quran.md")).toEqual([]);
+		expect(blocksQuoting(index, "Other.md")).toEqual(["a.md"]);
+
+		index.rename("self.md", "renamed.md");
+		expect(blocksQuoting(index, "self.md")).toEqual([]);
+		expect(blocksQuoting(index, "renamed.md")).toEqual(["renamed.md"]);
+
+		index.remove("a.md");
+		expect(blocksQuoting(index, "Other.md")).toEqual([]);
+	});
+});
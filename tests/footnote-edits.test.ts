@@ -0,0 +1,265 @@
+import {
+	deleteFootnote,
+	findParenthetical,
+	footnoteFromParenthetical,
+	inlineFootnote,
+	mergeFootnotes,
+	moveFootnote,
+	setFootnoteType,
+} from "../src/footnote-edits";
+import {
+	TextEdit,
+	applyTextEdits,
+	composeTextEdits,
+	parseCommentary,
+} from "../src/parser";
+import { renumberFootnotes } from "../src/renumber";
+
+const lines = (...text: string[]) => text.join("\n");
+
+// Apply edits computed from the parsed source back to the source
+const edit = (
+	source: string,
+	compute: (doc: ReturnType<typeof parseCommentary>) => TextEdit[]
+) => applyTextEdits(source, compute(parseCommentary(source)));
+
+describe("deleteFootnote", () => {
+	it("removes the references and the definition", () => {
+		const source = lines(
+			"---commentary---",
+			"A word $[1]. Another $[2] and $[1]",
+			"---footnote---",
+			"$[1]: one",
+			"  continued",
+			"$[2]: two"
+		);
+
+		expect(edit(source, (doc) => deleteFootnote(doc, source, "1", 1))).toBe(
+			lines(
+				"---commentary---",
+				"A word. Another $[2] and",
+				"---footnote---",
+				"$[2]: two"
+			)
+		);
+	});
+
+	it("only touches the given layer", () => {
+		const source = lines(
+			"---commentary---",
+			"$[1]",
+			"---footnote---",
+			"$[1]: main",
+			"---commentary-2---",
+			"$[1]",
+			"---footnote-2---",
+			"$[1]: layer two"
+		);
+
+		expect(edit(source, (doc) => deleteFootnote(doc, source, "1", 2))).toBe(
+			lines(
+				"---commentary---",
+				"$[1]",
+				"---footnote---",
+				"$[1]: main",
+				"---commentary-2---",
+				"",
+				"---footnote-2---",
+				""
+			)
+		);
+	});
+});
+
+describe("inlineFootnote", () => {
+	it("puts the content in parentheses at the first reference", () => {
+		const source = lines(
+			"---commentary---",
+			"A word $[1]. Later $[1].",
+			"---footnote---",
+			"$[1]: idea:An aside",
+			"  on two lines"
+		);
+
+		expect(edit(source, (doc) => inlineFootnote(doc, source, "1", 1))).toBe(
+			lines(
+				"---commentary---",
+				"A word (An aside on two lines). Later.",
+				"---footnote---",
+				""
+			)
+		);
+	});
+});
+
+describe("parentheticals", () => {
+	const source = lines(
+		"---commentary---",
+		"Word (an aside (nested) here) end",
+		"---footnote---",
+		"$[1]: one"
+	);
+	const at = (text: string) => source.indexOf(text);
+
+	it("finds the innermost parenthetical around an offset", () => {
+		const outer = findParenthetical(source, at("an aside"));
+		expect(outer && source.slice(outer.start, outer.end)).toBe(
+			"(an aside (nested) here)"
+		);
+		const inner = findParenthetical(source, at("nested"));
+		expect(inner && source.slice(inner.start, inner.end)).toBe("(nested)");
+		expect(findParenthetical(source, at("end"))).toBeNull();
+	});
+
+	it("turns a parenthetical into a footnote", () => {
+		const range = findParenthetical(source, at("an aside"));
+		expect(range).not.toBeNull();
+		if (!range) return;
+
+		expect(
+			edit(source, (doc) =>
+				footnoteFromParenthetical(doc, source, range, "2", 1, "idea")
+			)
+		).toBe(
+			lines(
+				"---commentary---",
+				"Word $[2] end",
+				"---footnote---",
+				"$[1]: one",
+				"$[2]: idea:an aside (nested) here"
+			)
+		);
+	});
+});
+
+describe("mergeFootnotes", () => {
+	it("appends the content and points references to the target", () => {
+		const source = lines(
+			"---commentary---",
+			"One $[3], two $[7] $[3]",
+			"---footnote---",
+			"$[3]: three",
+			"$[7]: seven"
+		);
+
+		expect(
+			edit(source, (doc) => mergeFootnotes(doc, source, "3", "7", 1))
+		).toBe(
+			lines(
+				"---commentary---",
+				"One $[7], two $[7]",
+				"---footnote---",
+				"$[7]: seven",
+				"three"
+			)
+		);
+	});
+
+	it("drops references to the merged footnote from the target", () => {
+		const source = lines(
+			"---commentary---",
+			"One $[3], two $[7]",
+			"---footnote---",
+			"$[3]: three",
+			"$[7]: seven $[3]"
+		);
+
+		expect(
+			edit(source, (doc) => mergeFootnotes(doc, source, "3", "7", 1))
+		).toBe(
+			lines(
+				"---commentary---",
+				"One $[7], two $[7]",
+				"---footnote---",
+				"$[7]: seven",
+				"three"
+			)
+		);
+	});
+});
+
+describe("moveFootnote", () => {
+	it("moves the first reference to the offset", () => {
+		const source = lines(
+			"---commentary---",
+			"Here $[1] and there.",
+			"---footnote---",
+			"$[1]: one"
+		);
+		const offset = source.indexOf(".");
+
+		expect(
+			edit(source, (doc) => moveFootnote(doc, source, "1", 1, offset))
+		).toBe(
+			lines(
+				"---commentary---",
+				"Here and there $[1].",
+				"---footnote---",
+				"$[1]: one"
+			)
+		);
+	});
+});
+
+describe("setFootnoteType", () => {
+	const setType = (source: string, keyword: string) =>
+		edit(source, (doc) =>
+			setFootnoteType(doc, source, "1", 1, keyword, [
+				"note",
+				"warning",
+				"idea",
+			])
+		);
+
+	it("replaces an existing type keyword", () => {
+		const source = lines("---footnote---", "$[1]: warning:Careful");
+		expect(setType(source, "idea")).toBe(
+			lines("---footnote---", "$[1]: idea:Careful")
+		);
+	});
+
+	it("adds a keyword to an untyped definition", () => {
+		const source = lines("---footnote---", "$[1]: Plain");
+		expect(setType(source, "idea")).toBe(
+			lines("---footnote---", "$[1]: idea:Plain")
+		);
+	});
+
+	it("keeps a definition that starts with a URL", () => {
+		const source = lines("---footnote---", "$[1]: https://example.com");
+		expect(setType(source, "idea")).toBe(
+			lines("---footnote---", "$[1]: idea:https://example.com")
+		);
+	});
+});
+
+describe("deleting and renumbering", () => {
+	it("composes into edits that leave other text in place", () => {
+		const source = lines(
+			"---commentary---",
+			"A $[1], B $[2], C $[3]",
+			"---footnote---",
+			"$[1]: one",
+			"$[2]: two",
+			"$[3]: three"
+		);
+		const doc = parseCommentary(source);
+		const deleted = deleteFootnote(doc, source, "2", 1);
+		const edits = composeTextEdits(
+			source,
+			deleted,
+			renumberFootnotes(parseCommentary(applyTextEdits(source, deleted)))
+		);
+
+		expect(applyTextEdits(source, edits)).toBe(
+			lines(
+				"---commentary---",
+				"A $[1], B, C $[2]",
+				"---footnote---",
+				"$[1]: one",
+				"$[2]: three"
+			)
+		);
+		expect(edits.every((item) => item.range.start > 20)).toBe(true);
+	});
+});
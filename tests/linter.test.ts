@@ -0,0 +1,119 @@
+import { lintCommentary } from "../src/linter";
+import { applyTextEdits, parseCommentary } from "../src/parser";
+
+const lines = (...text: string[]) => text.join("\n");
+const TYPES = ["note", "warning", "idea"];
+
+const lint = (source: string) =>
+	lintCommentary(parseCommentary(source), source, TYPES);
+
+// Source after applying the fix of the diagnostic with the code
+const fix = (source: string, code: string) => {
+	const diagnostic = lint(source).find((item) => item.code === code);
+	return diagnostic?.fix && applyTextEdits(source, diagnostic.fix.edits);
+};
+
+describe("lintCommentary", () => {
+	it("accepts a well-formed block", () => {
+		const source = lines(
+			"---text---",
+			"Passage @[1]",
+			"---commentary---",
+			"@[1] On it $[1]",
+			"---footnote---",
+			"$[1]: note:Fine"
+		);
+		expect(lint(source)).toEqual([]);
+	});
+
+	it("adds a stub for a missing definition", () => {
+		const source = lines("---commentary---", "Word $[1]");
+		expect(fix(source, "missing-definition")).toBe(
+			lines(
+				"---commentary---",
+				"Word $[1]",
+				"",
+				"---footnote---",
+				"$[1]: "
+			)
+		);
+	});
+
+	it("reports unused and duplicate definitions", () => {
+		const source = lines(
+			"---commentary---",
+			"$[1]",
+			"---footnote---",
+			"$[1]: first",
+			"$[1]: second",
+			"$[2]: unused"
+		);
+		expect(lint(source).map((item) => [item.code, item.line])).toEqual([
+			["duplicate-definition", 3],
+			["unused-definition", 5],
+		]);
+	});
+
+	it("suggests the closest section marker", () => {
+		const source = lines("---comentary---", "Text");
+		expect(fix(source, "malformed-marker")).toBe(
+			lines("---commentary---", "Text")
+		);
+	});
+
+	it("merges a directly repeated section", () => {
+		const source = lines(
+			"---footnote---",
+			"$[1]: one",
+			"---footnote---",
+			"$[2]: two"
+		);
+		expect(fix(source, "duplicate-section")).toBe(
+			lines("---footnote---", "$[1]: one", "$[2]: two")
+		);
+	});
+
+	it("reports unknown footnote types", () => {
+		const source = lines(
+			"---commentary---",
+			"$[1]",
+			"---footnote---",
+			"$[1]: wraning:Careful"
+		);
+		expect(fix(source, "unknown-type")).toBe(
+			lines(
+				"---commentary---",
+				"$[1]",
+				"---footnote---",
+				"$[1]: note:wraning:Careful"
+			)
+		);
+	});
+
+	it("does not take a URL scheme for a footnote type", () => {
+		const source = lines(
+			"---commentary---",
+			"$[1]",
+			"---footnote---",
+			"$[1]: https://example.com"
+		);
+		expect(lint(source)).toEqual([]);
+	});
+
+	it("checks anchors and apparatus entries", () => {
+		const source = lines(
+			"---text---",
+			"He said &[1]",
+			"---commentary---",
+			"@[2] On a missing passage",
+			"---apparatus---",
+			"&[1]: she said ] ب: قالت",
+			"&[2]: unused"
+		);
+		expect(lint(source).map((item) => item.code)).toEqual([
+			"lemma-not-found",
+			"unknown-anchor",
+			"unused-apparatus-entry",
+		]);
+	});
+});
@@ -0,0 +1,379 @@
+import {
+	applyTextEdits,
+	composeTextEdits,
+	findCommentaryBlocks,
+	getDefinition,
+	getSectionAtLine,
+	parseCommentary,
+	serializeCommentary,
+	setMetadataValue,
+	toNoteEdits,
+	toSourceOffset,
+} from "../src/parser";
+
+const lines = (...text: string[]) => text.join("\n");
+
+describe("parseCommentary", () => {
+	const sources = [
+		"",
+		"Just a preamble",
+		lines("---text---", "Matn", "---commentary---", "Sharh"),
+		lines("intro", "", "---text---", "Matn", "", "---commentary---", ""),
+		lines(
+			"---metadata---",
+			"title: Al-Fatiha",
+			"---text---",
+			"In the name @[1] of God $[1]",
+			"---commentary---",
+			"@[1] Commentary $[a-b]",
+			"---footnote---",
+			"$[1]: warning:First",
+			"  continued",
+			"",
+			"$[a-b]: Second",
+			"---commentary-2---",
+			"Hashiya $[1]",
+			"---footnote-2---",
+			"$[1]: Layer two",
+			""
+		),
+	];
+
+	it.each(sources)("round-trips %j", (source) => {
+		expect(serializeCommentary(parseCommentary(source))).toBe(source);
+	});
+
+	it("keeps text before the first marker as the preamble", () => {
+		const doc = parseCommentary(lines("intro", "---text---", "Matn"));
+		expect(doc.preamble).toBe("intro\n");
+		expect(doc.sections).toHaveLength(1);
+	});
+
+	it("records section ranges and lines", () => {
+		const source = lines(
+			"---text---",
+			"Matn",
+			"",
+			"---commentary---",
+			"Sharh"
+		);
+		const doc = parseCommentary(source);
+		const [text, commentary] = doc.sections;
+
+		expect(source.slice(text.range.start, text.range.end)).toBe(
+			"---text---\nMatn\n\n"
+		);
+		expect(source.slice(text.bodyRange.start, text.bodyRange.end)).toBe(
+			"Matn\n\n"
+		);
+		expect(text).toMatchObject({ line: 0, endLine: 3, level: 0 });
+		expect(commentary).toMatchObject({ line: 3, endLine: 5, level: 1 });
+		expect(commentary.range.end).toBe(source.length);
+		expect(getSectionAtLine(doc, 2)).toBe(text);
+		expect(getSectionAtLine(doc, 4)).toBe(commentary);
+	});
+
+	it("reads layered markers up to the deepest layer", () => {
+		const doc = parseCommentary(
+			lines("---commentary-3---", "a", "---commentary-4---", "b")
+		);
+		expect(doc.sections).toHaveLength(1);
+		expect(doc.sections[0].level).toBe(3);
+		expect(doc.sections[0].body).toBe("a\n---commentary-4---\nb");
+	});
+
+	it("pairs text and commentary sections into segments", () => {
+		const doc = parseCommentary(
+			lines(
+				"---text---",
+				"one",
+				"---commentary---",
+				"on one",
+				"---text---",
+				"two",
+				"---commentary---",
+				"on two",
+				"---commentary---",
+				"more"
+			)
+		);
+		expect(doc.segments).toEqual([
+			{ text: 0, commentary: 1 },
+			{ text: 2, commentary: 3 },
+			{ commentary: 4 },
+		]);
+	});
+
+	it("parses definitions with continuation lines and types", () => {
+		const source = lines(
+			"---footnote---",
+			"$[1]: warning:First line",
+			"  second line",
+			"",
+			"$[name]: Plain",
+			"$[url]: https://example.com"
+		);
+		const doc = parseCommentary(source);
+		const [first, second] = doc.definitions;
+
+		expect(first).toMatchObject({
+			label: "1",
+			typeKeyword: "warning",
+			typeBody: "First line\n  second line",
+			line: 1,
+			endLine: 3,
+		});
+		expect(source.slice(first.range.start, first.range.end)).toBe(
+			"$[1]: warning:First line\n  second line"
+		);
+		expect(second).toMatchObject({
+			label: "name",
+			typeKeyword: undefined,
+			typeBody: "Plain",
+			line: 4,
+		});
+		expect(doc.definitions[2]).toMatchObject({
+			typeKeyword: undefined,
+			typeBody: "https://example.com",
+		});
+	});
+
+	it("keeps a separate footnote series per layer", () => {
+		const doc = parseCommentary(
+			lines(
+				"---footnote---",
+				"$[1]: main",
+				"---footnote-2---",
+				"$[1]: layer two",
+				"---footnote---",
+				"$[1]: main again"
+			)
+		);
+		expect(getDefinition(doc, "1")?.content).toBe("main again");
+		expect(getDefinition(doc, "1", 2)?.content).toBe("layer two");
+	});
+
+	it("finds references but not definition openers", () => {
+		const source = lines(
+			"---commentary---",
+			"See $[1] and $[تفسير]",
+			"---footnote---",
+			"$[1]: Cites $[2]"
+		);
+		const doc = parseCommentary(source);
+		expect(doc.references.map((ref) => ref.label)).toEqual([
+			"1",
+			"تفسير",
+			"2",
+		]);
+		const [first] = doc.references;
+		expect(first).toMatchObject({ line: 1, ch: 4, section: 0 });
+		expect(source.slice(first.range.start, first.range.end)).toBe("$[1]");
+	});
+
+	it("finds lemmas right before their apparatus marker", () => {
+		const source = lines(
+			"---text---",
+			"He said &[1] and went &[2]",
+			"---apparatus---",
+			"&[1]: He said ] ب ج: قال; د: omitted",
+			"&[2]: came ] ب: جاء"
+		);
+		const doc = parseCommentary(source);
+		const [said, went] = doc.lemmas;
+
+		expect(doc.apparatus[0].readings).toEqual([
+			{ sigla: ["ب", "ج"], text: "قال" },
+			{ sigla: ["د"], text: "omitted" },
+		]);
+		expect(said.lemmaRange).toBeDefined();
+		if (said.lemmaRange) {
+			expect(
+				source.slice(said.lemmaRange.start, said.lemmaRange.end)
+			).toBe("He said");
+		}
+		expect(went.lemmaRange).toBeUndefined();
+	});
+});
+
+describe("findCommentaryBlocks", () => {
+	it("finds blocks and their content offsets", () => {
+		const content = lines(
+			"# Note",
+			"```commentary",
+			"---text---",
+			"Matn",
+			"```",
+			"^my-block",
+			"after"
+		);
+		const [block] = findCommentaryBlocks(content);
+
+		expect(block).toMatchObject({
+			startLine: 1,
+			endLine: 4,
+			source: "---text---\nMatn",
+			blockRef: "my-block",
+		});
+		expect(content.slice(block.contentStart)).toMatch(/^---text---/);
+	});
+
+	it("skips commentary fences inside other code blocks", () => {
+		const content = lines(
+			"~~~markdown",
+			"```commentary",
+			"quoted",
+			"```",
+			"~~~",
+			"````commentary",
+			"```js",
+			"code",
+			"```",
+			"````"
+		);
+		const blocks = findCommentaryBlocks(content);
+
+		expect(blocks).toHaveLength(1);
+		expect(blocks[0]).toMatchObject({ startLine: 5, endLine: 9 });
+		expect(blocks[0].source).toBe("```js\ncode\n```");
+	});
+
+	it("strips callout prefixes from the content", () => {
+		const content = lines(
+			"> [!note]",
+			"> ```commentary",
+			"> ---text---",
+			">Matn",
+			"> ```"
+		);
+		const [block] = findCommentaryBlocks(content);
+
+		expect(block.source).toBe("---text---\nMatn");
+		expect(block.prefixes).toEqual(["> ", ">"]);
+		expect(block.prefix).toBe("> ");
+		expect(block.quote).toBe("> ");
+	});
+
+	it("keeps the quote markers apart from the fence indentation", () => {
+		const [block] = findCommentaryBlocks(
+			lines(">   ```commentary", ">   Sharh", ">   ```", "> ^id")
+		);
+
+		expect(block.prefix).toBe(">   ");
+		expect(block.quote).toBe("> ");
+		expect(block.blockRef).toBe("id");
+	});
+
+	it("ends an unclosed block at its blockquote or the note", () => {
+		const quoted = findCommentaryBlocks(
+			lines("> ```commentary", "> one", "outside")
+		);
+		expect(quoted[0]).toMatchObject({ endLine: 2, source: "one" });
+
+		const open = findCommentaryBlocks(lines("```commentary", "one", "two"));
+		expect(open[0]).toMatchObject({ endLine: 3, source: "one\ntwo" });
+	});
+});
+
+describe("note offsets", () => {
+	const content = lines(
+		"> ```commentary",
+		"> ---footnote---",
+		"> $[1]: one",
+		"> ```"
+	);
+	const [block] = findCommentaryBlocks(content);
+
+	it("maps edits into the note, prefixing inserted lines", () => {
+		const end = block.source.length;
+		const [edit] = toNoteEdits(block, [
+			{ range: { start: end, end }, text: "\n$[2]: two" },
+		]);
+		const result =
+			content.slice(0, edit.range.start) +
+			edit.text +
+			content.slice(edit.range.end);
+
+		expect(result).toBe(
+			lines(
+				"> ```commentary",
+				"> ---footnote---",
+				"> $[1]: one",
+				"> $[2]: two",
+				"> ```"
+			)
+		);
+	});
+
+	it("maps editor positions back to source offsets", () => {
+		expect(toSourceOffset(block, 1, 3)).toBe(block.source.indexOf("[1]"));
+		expect(toSourceOffset(block, 0, 0)).toBe(0);
+	});
+});
+
+describe("text edits", () => {
+	const edit = (start: number, end: number, text: string) => ({
+		range: { start, end },
+		text,
+	});
+
+	it("composes edits made one after the other", () => {
+		const source = "one two three four";
+		const first = [edit(4, 8, ""), edit(14, 18, "4")];
+		const between = applyTextEdits(source, first);
+		expect(between).toBe("one three 4");
+
+		const second = [edit(0, 3, "1"), edit(4, 9, "3"), edit(10, 11, "IV")];
+		const composed = composeTextEdits(source, first, second);
+
+		expect(applyTextEdits(source, composed)).toBe(
+			applyTextEdits(between, second)
+		);
+		expect(composed).toEqual([
+			edit(0, 3, "1"),
+			edit(4, 13, "3"),
+			edit(14, 18, "IV"),
+		]);
+	});
+
+	it("keeps edits that don't touch apart", () => {
+		const source = "aaaa bbbb cccc";
+		const composed = composeTextEdits(
+			source,
+			[edit(0, 4, "A")],
+			[edit(2, 6, "B")]
+		);
+		expect(composed).toEqual([edit(0, 4, "A"), edit(5, 9, "B")]);
+	});
+
+	it("sets metadata values with a single small edit", () => {
+		const set = (source: string, key: string, value: string) =>
+			applyTextEdits(source, [
+				setMetadataValue(parseCommentary(source), key, value),
+			]);
+		const source = lines(
+			"---metadata---",
+			"title: Old",
+			"",
+			"---text---",
+			"Matn"
+		);
+
+		expect(set(source, "title", "New")).toBe(
+			lines("---metadata---", "title: New", "", "---text---", "Matn")
+		);
+		expect(set(source, "sourcehash", "abc")).toBe(
+			lines(
+				"---metadata---",
+				"title: Old",
+				"sourcehash: abc",
+				"",
+				"---text---",
+				"Matn"
+			)
+		);
+		expect(set(lines("---text---", "Matn"), "id", "x")).toBe(
+			lines("---metadata---", "id: x", "---text---", "Matn")
+		);
+	});
+});
@@ -0,0 +1,109 @@
+import { applyTextEdits, parseCommentary } from "../src/parser";
+import { renumberFootnotes } from "../src/renumber";
+
+const lines = (...text: string[]) => text.join("\n");
+
+const renumber = (source: string) =>
+	applyTextEdits(source, renumberFootnotes(parseCommentary(source)));
+
+describe("renumberFootnotes", () => {
+	it("numbers footnotes by first reference and reorders definitions", () => {
+		const source = lines(
+			"---commentary---",
+			"First $[3], then $[1] and $[3] again.",
+			"---footnote---",
+			"$[1]: one",
+			"$[3]: three",
+			""
+		);
+
+		expect(renumber(source)).toBe(
+			lines(
+				"---commentary---",
+				"First $[1], then $[2] and $[1] again.",
+				"---footnote---",
+				"$[1]: three",
+				"$[2]: one",
+				""
+			)
+		);
+	});
+
+	it("keeps named labels and puts unreferenced definitions last", () => {
+		const source = lines(
+			"---commentary---",
+			"$[ibn-kathir] $[5]",
+			"---footnote---",
+			"$[2]: unused",
+			"$[5]: five",
+			"$[ibn-kathir]: named"
+		);
+
+		expect(renumber(source)).toBe(
+			lines(
+				"---commentary---",
+				"$[ibn-kathir] $[1]",
+				"---footnote---",
+				"$[ibn-kathir]: named",
+				"$[1]: five",
+				"$[2]: unused"
+			)
+		);
+	});
+
+	it("numbers each layer separately and rewrites nested references", () => {
+		const source = lines(
+			"---commentary---",
+			"$[4]",
+			"---footnote---",
+			"$[4]: see $[4]",
+			"---commentary-2---",
+			"$[9] $[7]",
+			"---footnote-2---",
+			"$[7]: seven",
+			"$[9]: nine"
+		);
+
+		expect(renumber(source)).toBe(
+			lines(
+				"---commentary---",
+				"$[1]",
+				"---footnote---",
+				"$[1]: see $[1]",
+				"---commentary-2---",
+				"$[1] $[2]",
+				"---footnote-2---",
+				"$[1]: nine",
+				"$[2]: seven"
+			)
+		);
+	});
+
+	it("leaves numbered blocks unchanged", () => {
+		const source = lines(
+			"---commentary---",
+			"$[1] $[2]",
+			"---footnote---",
+			"$[1]: one",
+			"$[2]: two"
+		);
+		expect(renumberFootnotes(parseCommentary(source))).toEqual([]);
+	});
+
+	it("only edits changed labels of definitions that stay in place", () => {
+		const source = lines(
+			"---commentary---",
+			"$[1] $[5]",
+			"---footnote---",
+			"$[1]: one, long enough to keep",
+			"$[5]: five"
+		);
+		const reference = source.indexOf("$[5]");
+		const definition = source.lastIndexOf("$[5]");
+
+		expect(renumberFootnotes(parseCommentary(source))).toEqual([
+			{ range: { start: reference, end: reference + 4 }, text: "$[2]" },
+			{ range: { start: definition, end: definition + 4 }, text: "$[2]" },
+		]);
+	});
+});